@@ -3,11 +3,61 @@ import validateNpmName from "validate-npm-package-name";
 import chalk from "chalk";
 import fs from "fs";
 import path from "path";
-import os from "os";
-import spawn, { sync } from "cross-spawn";
-import sodium from "tweetsodium";
-import axios from "axios";
+import crossSpawn from "cross-spawn";
 import meow from "meow";
+import getBuildScript, {
+  BUNDLERS,
+  getBundlerConfigFile,
+  getBundlerDependencies,
+  validateBundler,
+} from "./src/bundlers";
+import {
+  CHECKPOINT_PATTERN,
+  SECRETS_CHECKPOINT_FILE,
+  UPGRADE_CHECKPOINT_FILE,
+} from "./src/checkpoint";
+import getCiView from "./src/ci";
+import loadConfig, { CONFIG_FILE, readJson } from "./src/config";
+import diffLines from "./src/diff";
+import createHost, { HOSTS } from "./src/hosts";
+import { ERROR_POLICIES, handleHttpError } from "./src/http";
+import readManifest, { MANIFEST_FILE, ManifestOptions } from "./src/manifest";
+import mergeFile from "./src/merge";
+import renderLicense, { getPublishAccess, LICENSES } from "./src/licenses";
+import getModuleView, {
+  getBinPath,
+  getBuildOutputs,
+  MODULE_FORMATS,
+  validateModuleFormat,
+} from "./src/modules";
+import getPackageManagerView, {
+  detectPackageManager,
+  getPackageManagerCommands,
+  getPackageManagerVersion,
+  OFFLINE_ARGS,
+  PACKAGE_MANAGERS,
+  validatePackageManager,
+} from "./src/packageManagers";
+import { templatePath, templatesPath } from "./src/paths";
+import { applyPlugins, loadPlugins } from "./src/plugins";
+import getNameSuggestions, {
+  isPublished,
+  planIsPublished,
+} from "./src/registry";
+import createReporter, { REPORTERS, validateReporter } from "./src/reporters";
+import loadSecrets, { ENV_FILE, validateSecretsCommand } from "./src/secrets";
+import createRenderer, { toOutputPath } from "./src/templates";
+import getTestRunnerView, {
+  getReactTestDependencies,
+  getTestRunnerConfigFile,
+  getTestRunnerDependencies,
+  getTestRunnerTypes,
+  TEST_RUNNERS,
+  validateTestRunner,
+} from "./src/testRunners";
+import runTasks, { runTask, Task } from "./src/tasks";
+import runWizard from "./src/wizard";
+import { version } from "./package.json";
 
 const helpText = `
 ${chalk.red("F")} ${chalk.redBright("U")} ${chalk.yellow(
@@ -15,574 +65,1249 @@ ${chalk.red("F")} ${chalk.redBright("U")} ${chalk.yellow(
 )} ${chalk.redBright("G")} ${chalk.red("O")}
 ${chalk.blue("Usage")}:
   $ npx fuego init <${chalk.green("projectName")}>
+  $ npx fuego upgrade    Merge template changes into the package in the
+                         current directory
+  $ npx fuego secrets sync
+                         Upload the secrets the package's CI needs to its repo
+  $ npx fuego secrets rotate <${chalk.green("name")}>
+                         Upload the new value of a single secret
 ${chalk.blue("Options")}:
   --help, -h          Print this help message and exit
   --version, -v       Print the CLI version and exit
   --task              Run just the input task. Runs all when omitted
   --react             Project created will use React and JSX
   --app               Project created will be a full stack application
+  --cli               Project created will be a command line tool
+  --dry-run           Print what each task would do without running it
+  --resume            Continue a failed run from its first incomplete task
+  --rollback-on-failure
+                      Undo what a failed run created, like its directory, its
+                      repo and the cloud resources of --app projects
+  --reporter          Format of the progress output, one of ${REPORTERS.join(
+    ", "
+  )}
+  --module            Output format of the package, one of ${MODULE_FORMATS.join(
+    ", "
+  )}
+  --bundler           Tool that builds the package, one of ${BUNDLERS.join(
+    ", "
+  )}
+  --test-runner       Runner of the package's tests, one of ${TEST_RUNNERS.join(
+    ", "
+  )}
+  --package-manager   Installs the packages, one of ${PACKAGE_MANAGERS.join(
+    ", "
+  )}
+                      the one running this command if omitted
+  --offline           Install packages from the local cache only
+  --template          Directory of files rendered over the default templates
+  --env-file          File secrets are read from, ${ENV_FILE} if omitted
+  --no-repo           Skip creating the repo on the git host
+  --no-verify         Skip linting, building and testing the new project
+  --no-preflight      Skip checking that the name, repo and directory are free
+  --workspace         Create an npm workspaces monorepo, or add a package to
+                      the one in the current directory
+  --owner             GitHub user or organization that will own the repo
+  --scope             npm scope stripped from the project name
+  --author            Name of the author and copyright holder
+  --email             Email of the author
+  --domain            Domain suffix stripped from the project name
+  --license           SPDX id of the license, one of ${LICENSES.join(", ")}
+  --copyright-holder  Name in the license's copyright line, the author if omitted
+  --host              Git host of the repo, one of ${HOSTS.join(", ")}
+  --host-url          Base URL of a self-hosted git host
+  --node-versions     Node versions CI checks the package on, comma separated
+  --on-error          What to do when a request to an API fails after its
+                      retries, one of ${ERROR_POLICIES.join(", ")}
+  --plugins           Comma separated modules adding tasks to the run
+  --registry-url      npm registry the package name is checked on
+  --terraform-organization  Terraform Cloud organization for --app projects
+  --terraform-url     Base URL of Terraform Cloud or Enterprise
+  --aws-profile       AWS credentials profile used by --app projects
+  --aws-endpoint      Endpoint every AWS request of --app projects goes to
+  --rds-instance      RDS instance --app projects create their database on
+  --rds-user          Master user of that RDS instance
+Defaults for the last nineteen are read from ~/${CONFIG_FILE} and the
+"create-vargas" key of the package.json in the current directory.
 `;
 
-const npmToken = process.env.NPM_TOKEN || "";
-
-const rawName = process.argv[2] || "";
-const projectName = rawName
-  .replace(/^@dvargas92495\//, "")
-  .replace(/\.davidvargas\.me$/, "");
-
-const argv = process.argv.slice(3);
-const { flags, showHelp, showVersion } = meow(helpText, {
-  argv,
-  booleanDefault: undefined,
-  description: false,
-  flags: {
-    help: { type: "string", alias: "h" },
-    react: { type: "boolean" },
-    task: { type: "string" },
-    version: { type: "boolean", alias: "v" },
-  },
-});
-if (flags.help) showHelp();
-if (flags.version) showVersion();
-
-const isReact = flags.react;
-const root = path.resolve(projectName);
-const githubOpts = {
-  headers: {
-    Authorization: `token ${process.env.GITHUB_TOKEN}`,
-  },
-};
+// Runs the command in argv, resolving once it is done. Tests pass their own
+// argv and a spawner standing in for npm and git, and point the hosts and
+// the registry at stub servers with flags.
+const main = ({
+  argv = process.argv,
+  spawner = crossSpawn,
+}: {
+  argv?: string[];
+  spawner?: Pick<typeof crossSpawn, "spawn" | "sync">;
+} = {}): Promise<void> => {
+  const npmToken = process.env.NPM_TOKEN || "";
 
-type Task = {
-  title: string;
-  task: () => void | Promise<void>;
-  skip?: () => boolean;
-};
-const tasks: Task[] = [
-  {
-    title: "Validate Package Name",
-    task: () => {
-      const { validForNewPackages, errors, warnings } = validateNpmName(
-        projectName
+  // Without a project name or command first, every argument is a flag.
+  const { flags, input, showHelp, showVersion } = meow(helpText, {
+    argv: argv.slice(/^-/.test(argv[2] || "") ? 2 : 3),
+    booleanDefault: undefined,
+    description: false,
+    // The bundle has no package.json next to it to read the version from.
+    version,
+    flags: {
+      app: { type: "boolean" },
+      author: { type: "string" },
+      awsEndpoint: { type: "string" },
+      awsProfile: { type: "string" },
+      bundler: { type: "string", default: "tsc" },
+      cli: { type: "boolean" },
+      copyrightHolder: { type: "string" },
+      domain: { type: "string" },
+      dryRun: { type: "boolean" },
+      email: { type: "string" },
+      envFile: { type: "string" },
+      help: { type: "boolean", alias: "h" },
+      host: { type: "string" },
+      hostUrl: { type: "string" },
+      license: { type: "string" },
+      module: { type: "string", default: "cjs" },
+      nodeVersions: { type: "string" },
+      offline: { type: "boolean" },
+      onError: { type: "string" },
+      owner: { type: "string" },
+      packageManager: { type: "string" },
+      plugins: { type: "string" },
+      preflight: { type: "boolean", default: true },
+      rdsInstance: { type: "string" },
+      rdsUser: { type: "string" },
+      react: { type: "boolean" },
+      repo: { type: "boolean", default: true },
+      registryUrl: { type: "string" },
+      reporter: { type: "string", default: "pretty" },
+      resume: { type: "boolean" },
+      rollbackOnFailure: { type: "boolean" },
+      scope: { type: "string" },
+      task: { type: "string" },
+      template: { type: "string" },
+      terraformOrganization: { type: "string" },
+      terraformUrl: { type: "string" },
+      testRunner: { type: "string", default: "jest" },
+      verify: { type: "boolean", default: true },
+      version: { type: "boolean", alias: "v" },
+      workspace: { type: "boolean" },
+    },
+  });
+  if (flags.help) showHelp(0);
+  if (flags.version) showVersion();
+  try {
+    validateReporter(flags.reporter as string);
+  } catch (e) {
+    console.error(chalk.redBright(e.message));
+    process.exit(1);
+  }
+  // The json reporter owns stdout, so everything else is logged to stderr.
+  if (flags.reporter === "json") console.log = console.error;
+
+  // `upgrade` renders the templates again with the options the package was
+  // generated with.
+  const isUpgrade = argv[2] === "upgrade";
+  // `secrets` uploads the secrets of the package in the current directory to
+  // its repo, found from its manifest if it has one.
+  const isSecrets = argv[2] === "secrets";
+  const [secretsCommand = "", rotatedSecret = ""] = isSecrets ? input : [];
+  // Without a project name, the wizard asks for it and the other options.
+  const nameArg = /^-/.test(argv[2] || "") ? "" : argv[2] || "";
+  const isWizard = !nameArg;
+  const getManifest = () => {
+    try {
+      return readManifest(process.cwd());
+    } catch (e) {
+      console.error(chalk.redBright(e.message));
+      return process.exit(1);
+    }
+  };
+  const manifest =
+    isUpgrade ||
+    (isSecrets && fs.existsSync(path.join(process.cwd(), MANIFEST_FILE)))
+      ? getManifest()
+      : undefined;
+  const options = manifest?.options;
+
+  const getConfig = () => {
+    try {
+      return loadConfig({ ...options, ...flags });
+    } catch (e) {
+      console.error(chalk.redBright(e.message));
+      return process.exit(1);
+    }
+  };
+  const config = getConfig();
+  const moduleFormat = options?.module || (flags.module as string);
+  const bundler = options?.bundler || (flags.bundler as string);
+  const testRunner = options?.testRunner || (flags.testRunner as string);
+  // Packages generated before --package-manager existed use npm, as do apps
+  // and workspaces.
+  const packageManager = options
+    ? options.packageManager || "npm"
+    : (flags.packageManager as string) ||
+      (flags.app || flags.workspace ? "npm" : detectPackageManager());
+  try {
+    validateModuleFormat(moduleFormat);
+    validateBundler(bundler);
+    validateTestRunner(testRunner);
+    validatePackageManager(packageManager);
+    if (flags.workspace && moduleFormat !== "cjs") {
+      throw new Error("--module only supports cjs with --workspace");
+    }
+    if (flags.workspace && testRunner !== "jest") {
+      throw new Error("--test-runner only supports jest with --workspace");
+    }
+    if ((flags.app || flags.workspace) && packageManager !== "npm") {
+      throw new Error(
+        "--package-manager only supports npm with --app or --workspace"
       );
-      if (!validForNewPackages) {
-        throw new Error(
-          `Could not create a project called ${chalk.red(
-            `"${projectName}"`
-          )} because of npm naming restrictions:
+    }
+    if ((flags.app || flags.workspace) && config.host !== "github") {
+      throw new Error("--host only supports github with --app or --workspace");
+    }
+    if (flags.cli && (flags.react || flags.workspace)) {
+      throw new Error("--cli is not supported with --react or --workspace");
+    }
+    if (isWizard && (!process.stdin.isTTY || flags.reporter === "json")) {
+      throw new Error("Pass the name of the project to create");
+    }
+    if (isSecrets) {
+      validateSecretsCommand(secretsCommand);
+      if (secretsCommand === "rotate" && !rotatedSecret) {
+        throw new Error("Pass the name of the secret to rotate");
+      }
+    }
+  } catch (e) {
+    console.error(chalk.redBright(e.message));
+    process.exit(1);
+  }
+  // CI installs the same version of pnpm and yarn as the package was created
+  // with. The wizard leaves this to the command it runs.
+  const getVersionOfPackageManager = () => {
+    if (options) return options.packageManagerVersion || "";
+    if (packageManager === "npm" || isSecrets || isWizard) return "";
+    try {
+      return getPackageManagerVersion(packageManager);
+    } catch (e) {
+      console.error(chalk.redBright(e.message));
+      return process.exit(1);
+    }
+  };
+  const packageManagerVersion = getVersionOfPackageManager();
+  const packageManagerCommands = getPackageManagerCommands(packageManager);
+  const offlineArgs = flags.offline ? OFFLINE_ARGS : [];
+  const { owner, author, email } = config;
+  const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+  const getPackageName = (): string => {
+    const { name } = readJson(path.join(process.cwd(), "package.json"));
+    if (!name) {
+      console.error(
+        chalk.redBright(
+          "Could not find the package's name. Run secrets from the root of a package."
+        )
+      );
+      return process.exit(1);
+    }
+    return name;
+  };
+  const rawName = options?.rawName || (isSecrets ? getPackageName() : nameArg);
+  const projectName =
+    options?.projectName ||
+    rawName
+      .replace(new RegExp(`^@${escapeRegExp(config.scope)}/`), "")
+      .replace(new RegExp(`\\.${escapeRegExp(config.domain)}$`), "");
+
+  // Looks up from cwd for a package.json declaring npm workspaces.
+  const findWorkspaceRoot = (dir: string): string => {
+    const packageJson = path.join(dir, "package.json");
+    if (
+      fs.existsSync(packageJson) &&
+      JSON.parse(fs.readFileSync(packageJson).toString()).workspaces
+    ) {
+      return dir;
+    }
+    return path.dirname(dir) === dir
+      ? ""
+      : findWorkspaceRoot(path.dirname(dir));
+  };
+
+  const isReact = options ? options.react : flags.react;
+  const isCli = options ? options.cli : !!flags.cli;
+  const binPath = isCli ? getBinPath(moduleFormat) : "";
+  const buildScript = getBuildScript(bundler, moduleFormat, binPath);
+  const dryRun = !!flags.dryRun;
+  const reporter = createReporter(flags.reporter as string, { dryRun });
+  const workspaceRoot = flags.workspace ? findWorkspaceRoot(process.cwd()) : "";
+  // With --workspace, either add a package to an existing workspace or create
+  // the workspace root itself.
+  const isWorkspacePackage = !!workspaceRoot;
+  const isWorkspaceRoot = !!flags.workspace && !workspaceRoot;
+  // Full stack apps are named after their domain, so keep the full name there.
+  const root =
+    isUpgrade || isSecrets
+      ? process.cwd()
+      : flags.app
+      ? path.resolve(rawName)
+      : isWorkspacePackage
+      ? path.join(workspaceRoot, "packages", projectName)
+      : path.resolve(projectName);
+  const host = createHost(config.host, {
+    owner,
+    // Packages in a workspace live in the workspace's repo.
+    repo: isWorkspacePackage ? path.basename(workspaceRoot) : projectName,
+    url: config.hostUrl || undefined,
+  });
+  const createsRepo =
+    !!flags.repo && !!process.env[host.tokenEnv] && !isWorkspacePackage;
+
+  // Failed requests fail their task, unless --on-error is warn.
+  const onHttpError = (message: string) =>
+    handleHttpError(config.onError, message);
+
+  const logPlan = (...lines: string[]) =>
+    lines.forEach((l) => console.log(chalk.grey(`  ${l}`)));
+
+  const mkdir = (dir: string) => {
+    if (fs.existsSync(dir)) return;
+    if (dryRun) {
+      return logPlan(`Create directory ${dir}`);
+    }
+    fs.mkdirSync(dir, { recursive: true });
+  };
+
+  const writeFile = (filename: string, contents: string) => {
+    if (dryRun) {
+      if (!fs.existsSync(filename)) {
+        return logPlan(`Write ${filename}`, ...contents.split(/\r?\n/));
+      }
+      const existing = fs.readFileSync(filename).toString();
+      return existing === contents
+        ? logPlan(`Leave ${filename} unchanged`)
+        : logPlan(`Overwrite ${filename}`, ...diffLines(existing, contents));
+    }
+    fs.writeFileSync(filename, contents);
+  };
+
+  const overlay = flags.template
+    ? path.resolve(flags.template)
+    : options?.template;
+  const renderer = createRenderer({
+    overlay,
+    templateDirs: [
+      ...(isWorkspaceRoot ? [templatesPath("workspace")] : []),
+      ...(isWorkspacePackage ? [templatesPath("workspace", "package")] : []),
+      templatesPath("npm"),
+    ],
+    view: {
+      rawName,
+      projectName,
+      owner,
+      author,
+      email,
+      repository: host.repository,
+      // Workspace packages point at their directory, which only the long
+      // form of the field can.
+      repositoryUrl: `git+${host.remoteUrl}`,
+      isReact,
+      workspaceName: path.basename(workspaceRoot),
+      license: config.license,
+      access: getPublishAccess(config.license),
+      checkpointFiles: CHECKPOINT_PATTERN,
+      ...getModuleView(moduleFormat),
+      isCli,
+      binPath,
+      buildScript: JSON.stringify(buildScript),
+      // The CLI's tests spawn the built CLI. They cannot run `npm run build`, as
+      // its prebuild script runs the tests.
+      pretestScript: JSON.stringify(
+        `${packageManager} run lint${isCli ? ` && ${buildScript}` : ""}`
+      ),
+      ...getTestRunnerView(testRunner, isReact),
+      ...getPackageManagerView(packageManager, packageManagerVersion),
+      types: JSON.stringify(
+        [...getTestRunnerTypes(testRunner), ...(isCli ? ["node"] : [])].filter(
+          (t, i, all) => all.indexOf(t) === i
+        )
+      ),
+      ...getCiView({
+        nodeVersions: config.nodeVersions,
+        // Provenance cannot point at the source of restricted packages.
+        provenance:
+          host.provenance && getPublishAccess(config.license) === "public",
+        releases: host.releases,
+      }),
+    },
+  });
+
+  const renderTemplate = (file: string) =>
+    file.endsWith(".json")
+      ? renderer.stringifyJson(renderer.renderJson(file))
+      : renderer.render(file);
+
+  const writeTemplate = (file: string) => {
+    const filename = path.join(root, toOutputPath(file));
+    if (path.dirname(filename) !== root) mkdir(path.dirname(filename));
+    return writeFile(filename, renderTemplate(file));
+  };
+
+  // Config files that `upgrade` keeps in sync with the templates. Sources, tests,
+  // package.json and the license belong to the package once generated.
+  const managedFiles = [
+    "tsconfig.json",
+    ...(moduleFormat === "dual" ? ["tsconfig.cjs.json"] : []),
+    getBundlerConfigFile(bundler),
+    getTestRunnerConfigFile(testRunner),
+    ...host.workflowFiles,
+    ...(packageManager === "pnpm" ? ["pnpm-workspace.yaml"] : []),
+    "gitignore",
+    ".eslintrc.json",
+  ].filter(Boolean);
+
+  const manifestOptions: ManifestOptions = {
+    rawName,
+    projectName,
+    owner,
+    author,
+    email,
+    license: config.license,
+    copyrightHolder: config.copyrightHolder,
+    host: config.host,
+    hostUrl: config.hostUrl,
+    nodeVersions: config.nodeVersions,
+    module: moduleFormat,
+    bundler,
+    testRunner,
+    packageManager,
+    ...(packageManagerVersion ? { packageManagerVersion } : {}),
+    react: !!isReact,
+    cli: isCli,
+    ...(overlay ? { template: overlay } : {}),
+  };
+
+  const writeManifest = (files: Record<string, string>) =>
+    writeFile(
+      path.join(root, MANIFEST_FILE),
+      renderer.stringifyJson({ version, options: manifestOptions, files })
+    );
+
+  const runCommand = (
+    command: string,
+    args: string[],
+    {
+      stdio = "inherit",
+      cwd = root,
+    }: { stdio?: "inherit" | "ignore"; cwd?: string } = {}
+  ) => {
+    if (dryRun) {
+      const line = [command, ...args]
+        .map((a) => (/\s/.test(a) ? JSON.stringify(a) : a))
+        .join(" ");
+      logPlan(`Run \`${line}\` in ${cwd}`);
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const child = spawner.spawn(command, args, {
+        cwd,
+        // Keeps the output of commands off the json reporter's stdout.
+        stdio:
+          stdio === "inherit" && flags.reporter === "json"
+            ? ["inherit", process.stderr, "inherit"]
+            : stdio,
+      });
+      child.on("close", (code) => {
+        if (code !== 0) {
+          reject(new Error(`${command} ${args[0]} exited with code ${code}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  };
+
+  // Everything the new project's scripts read, which the checks wait for.
+  const verifyDependencies = [
+    "Install Dev Packages",
+    "Install Packages",
+    "Write Test Runner Config",
+    "Write tsconfig.json",
+    "Write bundler config",
+    "Write .eslintrc.json",
+    "Write src",
+    "Write tests",
+    "Write template overlay",
+  ];
+
+  // Runs a script of the new project, failing with the command that broke. npm
+  // runs them whatever the package manager, as only it can skip pre scripts.
+  const runScript = (args: string[], cwd = root) =>
+    runCommand("npm", args, { cwd }).catch(() => {
+      throw new Error(`\`npm ${args.join(" ")}\` failed in ${cwd}`);
+    });
+
+  const tasks: Task[] = [
+    {
+      title: "Validate Package Name",
+      task: () => {
+        const { validForNewPackages, errors, warnings } =
+          validateNpmName(projectName);
+        if (!validForNewPackages) {
+          throw new Error(
+            `Could not create a project called ${chalk.red(
+              `"${projectName}"`
+            )} because of npm naming restrictions:
     ${errors?.map((p) => `    ${chalk.red.bold("*")} ${p}`)}
     ${warnings?.map((p) => `    ${chalk.yellow.bold("*")} ${p}`)}
           `
-        );
-      }
+          );
+        }
+      },
     },
-  },
-  {
-    title: "Make Project Directory",
-    task: () => fs.mkdirSync(projectName),
-    skip: () => fs.existsSync(projectName),
-  },
-  {
-    title: "Write Package JSON",
-    task: () => {
-      const packageJson: any = {
-        name: rawName,
-        description: `Description for ${rawName}`,
-        version: "0.0.0",
-        license: "MIT",
-        repository: `dvargas92495/${projectName}`,
-        sideEffects: false,
-        main: "dist/index.js",
-        types: "dist/index.d.ts",
-        scripts: {
-          prebuild: "cross-env NODE_ENV=test npm t",
-          build: "tsc",
-          format: `prettier --write "src/**/*.ts${isReact ? "x" : ""}"`,
-          lint: `eslint . --ext .ts${isReact ? ",.tsx" : ""}`,
-          prepublishOnly: "npm run build",
-          preversion: "npm run lint",
-          version: "npm run format && git add -A src",
-          postversion: "git push origin main && git push --tags",
-          pretest: "npm run lint",
-          test: "jest --config jestconfig.json",
-        },
-        files: [""],
-        ...(isReact
-          ? {
-              peerDependencies: {
-                react: "^16.8.0 || ^17",
-                "react-dom": "^16.8.0 || ^17",
-              },
-            }
-          : {}),
-      };
-
-      return fs.writeFileSync(
-        path.join(root, "package.json"),
-        JSON.stringify(packageJson, null, 2) + os.EOL
-      );
+    {
+      title: "Check availability",
+      dependsOn: ["Validate Package Name"],
+      task: () => {
+        // Workspace roots are private, and offline runs cannot ask.
+        const checksName = !isWorkspaceRoot && !flags.offline;
+        const checksRepo = createsRepo && !flags.offline;
+        if (dryRun) {
+          return logPlan(
+            ...(flags.resume ? [] : [`Check that ${root} is empty`]),
+            ...(checksName
+              ? [planIsPublished(config.registryUrl, rawName)]
+              : []),
+            ...(checksRepo ? host.planRepoExists() : [])
+          );
+        }
+        const conflicts: string[] = [];
+        if (
+          !flags.resume &&
+          fs.existsSync(root) &&
+          fs.readdirSync(root).length
+        ) {
+          conflicts.push(
+            `Directory ${root} is not empty. Pass --resume to continue a previous run.`
+          );
+        }
+        const checkName = () =>
+          isPublished(config.registryUrl, rawName)
+            .then((taken) =>
+              taken
+                ? getNameSuggestions(config.registryUrl, rawName, config).then(
+                    (names) => {
+                      conflicts.push(
+                        `${rawName} is already taken on ${config.registryUrl}${
+                          names.length
+                            ? `, try one of these:\n${names
+                                .map((n) => `- ${n}`)
+                                .join("\n")}`
+                            : ""
+                        }`
+                      );
+                    }
+                  )
+                : undefined
+            )
+            .catch(onHttpError("Failed to check the package name"));
+        const checkRepo = () =>
+          host
+            .repoExists()
+            .then((exists) => {
+              if (exists)
+                conflicts.push(`Repo ${host.remoteUrl} already exists`);
+            })
+            .catch(onHttpError("Failed to check the repo"));
+        return Promise.all([
+          checksName ? checkName() : undefined,
+          checksRepo ? checkRepo() : undefined,
+        ]).then(() => {
+          if (conflicts.length) throw new Error(conflicts.join("\n"));
+        });
+      },
+      skip: () => !flags.preflight,
     },
-  },
-  {
-    title: "Write Jest Config",
-    task: () => {
-      const jestConfig = {
-        transform: {
-          "^.+\\.(t|j)sx?$": "ts-jest",
-        },
-        testRegex: "/tests/.*\\.test\\.tsx?$",
-        moduleFileExtensions: ["ts", "tsx", "js", "jsx"],
-        ...(isReact
-          ? {
-              setupFilesAfterEnv: ["@testing-library/jest-dom/extend-expect"],
-            }
-          : {}),
-      };
-
-      return fs.writeFileSync(
-        path.join(root, "jestconfig.json"),
-        JSON.stringify(jestConfig, null, 2) + os.EOL
-      );
+    {
+      title: "Make Project Directory",
+      dependsOn: ["Check availability"],
+      task: () => mkdir(root),
+      skip: () => fs.existsSync(root),
+      undo: () => fs.rmSync(root, { recursive: true, force: true }),
     },
-  },
-  {
-    title: "Write tsconfig.json",
-    task: () => {
-      const tsconfig = {
-        compilerOptions: {
-          jsx: "react",
-          target: "es2015",
-          allowJs: false,
-          lib: ["es2019", "dom", "dom.iterable"],
-          module: "commonjs",
-          moduleResolution: "node",
-          declaration: true,
-          outDir: ".",
-          strict: true,
-          esModuleInterop: true,
-          noUnusedLocals: true,
-          noUnusedParameters: true,
-          noImplicitReturns: true,
-          noImplicitThis: true,
-          noImplicitAny: true,
-          forceConsistentCasingInFileNames: true,
-          allowSyntheticDefaultImports: true,
-          skipLibCheck: true,
-        },
-        include: ["src"],
-        exclude: ["node_modules", "**/__tests__/*"],
-      };
-
-      return fs.writeFileSync(
-        path.join(root, "tsconfig.json"),
-        JSON.stringify(tsconfig, null, 2) + os.EOL
-      );
+    {
+      title: "Write Package JSON",
+      dependsOn: ["Make Project Directory"],
+      task: () => writeTemplate("package.json"),
     },
-  },
-  {
-    title: "Write package main.yaml",
-    task: () => {
-      fs.mkdirSync(path.join(root, ".github", "workflows"), {
-        recursive: true,
-      });
-      return fs.writeFileSync(
-        path.join(root, ".github", "workflows", "main.yaml"),
-        `name: Publish package
-on:
-  push:
-    branches: main
-    paths:
-      - "package.json"
-
-jobs:
-  deploy:
-    runs-on: ubuntu-20.04
-    steps:
-      - uses: actions/checkout@v2
-      - name: Use Node.js 14.17.6
-        uses: actions/setup-node@v1
-        with:
-          node-version: 14.17.6
-      - name: install
-        run: npm install
-      - uses: JS-DevTools/npm-publish@v1
-        with:
-          token: \${{ secrets.NPM_TOKEN }}
-          access: "public"
-          check-version: false
-`
-      );
+    {
+      title: "Write Test Runner Config",
+      dependsOn: ["Make Project Directory"],
+      task: () =>
+        writeTemplate(
+          isWorkspaceRoot
+            ? "jest.config.base.js"
+            : isWorkspacePackage
+            ? "jest.config.js"
+            : getTestRunnerConfigFile(testRunner)
+        ),
+      // node:test needs no config.
+      skip: () => !getTestRunnerConfigFile(testRunner),
     },
-  },
-  {
-    title: "Write .gitignore",
-    task: () => {
-      return fs.writeFileSync(
-        path.join(root, ".gitignore"),
-        `node_modules
-build
-dist
-out
-.env
-`
-      );
+    {
+      title: "Write tsconfig.json",
+      dependsOn: ["Make Project Directory"],
+      task: () =>
+        isWorkspaceRoot
+          ? writeTemplate("tsconfig.base.json")
+          : moduleFormat === "dual"
+          ? ["tsconfig.json", "tsconfig.cjs.json"].forEach(writeTemplate)
+          : writeTemplate("tsconfig.json"),
     },
-  },
-  {
-    title: "Write .eslintrc.json",
-    task: () => {
-      const eslintrc = {
-        root: true,
-        parser: "@typescript-eslint/parser",
-        plugins: ["@typescript-eslint"],
-        extends: [
-          "eslint:recommended",
-          "plugin:@typescript-eslint/eslint-recommended",
-          "plugin:@typescript-eslint/recommended",
-        ],
-        ignorePatterns: ["**/*", "scripts/"],
-      };
-      return fs.writeFileSync(
-        path.join(root, ".eslintrc.json"),
-        JSON.stringify(eslintrc, null, 2) + os.EOL
-      );
+    {
+      title: "Write bundler config",
+      dependsOn: ["Make Project Directory"],
+      task: () => writeTemplate(getBundlerConfigFile(bundler)),
+      skip: () => isWorkspaceRoot || !getBundlerConfigFile(bundler),
     },
-  },
-  {
-    title: "Write LICENSE",
-    task: () => {
-      return fs.writeFileSync(
-        path.join(root, "LICENSE"),
-        `MIT License
-
-Copyright (c) ${new Date().getFullYear()} David Vargas
-
-Permission is hereby granted, free of charge, to any person obtaining a copy
-of this software and associated documentation files (the "Software"), to deal
-in the Software without restriction, including without limitation the rights
-to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
-copies of the Software, and to permit persons to whom the Software is
-furnished to do so, subject to the following conditions:
-
-The above copyright notice and this permission notice shall be included in all
-copies or substantial portions of the Software.
-
-THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
-IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
-FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
-AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
-LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
-OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
-SOFTWARE.
-`
-      );
+    {
+      title: "Write CI workflows",
+      dependsOn: ["Make Project Directory"],
+      task: () => host.workflowFiles.forEach(writeTemplate),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Write pnpm settings",
+      dependsOn: ["Make Project Directory"],
+      task: () => writeTemplate("pnpm-workspace.yaml"),
+      skip: () => packageManager !== "pnpm",
+    },
+    {
+      title: "Write .gitignore",
+      dependsOn: ["Make Project Directory"],
+      task: () => writeTemplate("gitignore"),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Write .eslintrc.json",
+      dependsOn: ["Make Project Directory"],
+      task: () => writeTemplate(".eslintrc.json"),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Write LICENSE",
+      dependsOn: ["Make Project Directory"],
+      task: () =>
+        writeFile(
+          path.join(root, "LICENSE"),
+          renderLicense(config.license, config.copyrightHolder)
+        ),
     },
-  },
-  {
-    title: "Install Dev Packages",
-    task: () => {
-      process.chdir(root);
-      return new Promise<void>((resolve, reject) => {
+    {
+      title: "Install Dev Packages",
+      dependsOn: ["Write Package JSON", "Write pnpm settings"],
+      // Packages in a workspace share the dev packages installed at its root.
+      skip: () => isWorkspacePackage && !isReact && bundler === "tsc",
+      task: () => {
         const dependencies = [
-          "@types/jest",
-          "@typescript-eslint/parser",
-          "@typescript-eslint/eslint-plugin",
-          "cross-env",
-          "eslint",
-          "jest",
-          "prettier",
-          "ts-jest",
-          "tslint-config-prettier",
-          "typescript",
+          ...(isWorkspacePackage
+            ? []
+            : [
+                "@typescript-eslint/parser",
+                "@typescript-eslint/eslint-plugin",
+                "cross-env",
+                // ESLint 9 no longer reads the .eslintrc.json written above.
+                "eslint@8",
+                "prettier",
+                "tslint-config-prettier",
+                // typescript-eslint and ts-jest need the JavaScript API, which
+                // TypeScript 7 does not have yet.
+                "typescript@6",
+                ...getTestRunnerDependencies(testRunner),
+              ]),
+          ...(isWorkspaceRoot ? [] : getBundlerDependencies(bundler)),
           ...(isReact
             ? [
-                "@testing-library/jest-dom",
-                "@testing-library/react",
-                "@testing-library/user-event",
+                ...getReactTestDependencies(testRunner),
                 "@types/react",
                 "@types/react-dom",
                 "tslint-react-hooks",
               ]
             : []),
+          ...(isCli ? ["@types/node"] : []),
+        ].filter((d, i, all) => all.indexOf(d) === i);
+        return runCommand(
+          packageManager,
+          [...packageManagerCommands.addDev, ...dependencies, ...offlineArgs],
+          { cwd: workspaceRoot || root }
+        );
+      },
+    },
+    {
+      title: "Install Packages",
+      dependsOn: ["Install Dev Packages", "Write Package JSON"],
+      skip: () =>
+        isWorkspaceRoot || (!isReact && !isCli && !isWorkspacePackage),
+      task: () => {
+        const dependencies = [
+          ...(isReact ? ["react", "react-dom"] : []),
+          // meow is ES modules only from version 10 on.
+          ...(isCli ? [moduleFormat === "cjs" ? "meow@9" : "meow"] : []),
         ];
-        const child = spawn(
-          "npm",
-          ["install", "--save-dev"].concat(dependencies),
-          {
-            stdio: "inherit",
-          }
+        // Installing from the workspace root links the new package into it.
+        return isWorkspacePackage
+          ? runCommand(
+              "npm",
+              [
+                "install",
+                ...dependencies,
+                "--workspace",
+                `packages/${projectName}`,
+                ...offlineArgs,
+              ],
+              { cwd: workspaceRoot }
+            )
+          : runCommand(packageManager, [
+              ...packageManagerCommands.add,
+              ...dependencies,
+              ...offlineArgs,
+            ]);
+      },
+    },
+    {
+      title: "Write src",
+      dependsOn: ["Make Project Directory"],
+      task: () => {
+        writeTemplate(isReact ? "src/index.tsx" : "src/index.ts");
+        if (isCli) writeTemplate("src/cli.ts");
+      },
+      skip: () => isWorkspaceRoot,
+    },
+    {
+      title: "Write tests",
+      dependsOn: ["Make Project Directory"],
+      task: () => {
+        writeTemplate(isReact ? "tests/index.test.tsx" : "tests/index.test.ts");
+        if (isReact && testRunner === "vitest") writeTemplate("tests/setup.ts");
+        if (isCli) writeTemplate("tests/cli.test.ts");
+      },
+      skip: () => isWorkspaceRoot,
+    },
+    {
+      title: "Lint project",
+      dependsOn: verifyDependencies,
+      // Workspace packages are linted with the rest of the workspace.
+      task: () => runScript(["run", "lint"], workspaceRoot || root),
+      skip: () => !flags.verify || isWorkspaceRoot,
+    },
+    {
+      title: "Build project",
+      dependsOn: verifyDependencies,
+      // --ignore-scripts skips the pre scripts, which would lint, test and
+      // build all over again.
+      task: () => runScript(["run", "build", "--ignore-scripts"]),
+      skip: () => !flags.verify || isWorkspaceRoot,
+    },
+    {
+      title: "Test project",
+      // The CLI's tests spawn the built CLI.
+      dependsOn: [...verifyDependencies, ...(isCli ? ["Build project"] : [])],
+      task: () => runScript(["test", "--ignore-scripts"]),
+      skip: () => !flags.verify || isWorkspaceRoot,
+    },
+    {
+      title: "Check build outputs",
+      dependsOn: ["Build project"],
+      task: () => {
+        const outputs = [
+          ...getBuildOutputs(moduleFormat),
+          ...(binPath ? [binPath] : []),
+        ];
+        if (dryRun) {
+          return logPlan(`Check that ${outputs.join(", ")} exist in ${root}`);
+        }
+        const missing = outputs.filter(
+          (f) => !fs.existsSync(path.join(root, f))
         );
-        child.on("close", (code) => {
-          if (code !== 0) {
-            reject(code);
-            return;
-          }
-          resolve();
-        });
-      });
+        if (missing.length) {
+          throw new Error(`The build did not write ${missing.join(", ")}`);
+        }
+      },
+      skip: () => !flags.verify || isWorkspaceRoot,
     },
-  },
-  {
-    title: "Install Packages",
-    skip: () => !isReact,
-    task: () => {
-      process.chdir(root);
-      return new Promise<void>((resolve, reject) => {
-        const dependencies = ["react", "react-dom"];
-        const child = spawn("npm", ["install"].concat(dependencies), {
-          stdio: "inherit",
-        });
-        child.on("close", (code) => {
-          if (code !== 0) {
-            reject(code);
-            return;
-          }
-          resolve();
-        });
-      });
+    {
+      title: "Write template overlay",
+      dependsOn: ["Make Project Directory"],
+      skip: () => !flags.template,
+      task: () => renderer.extraFiles().forEach(writeTemplate),
+    },
+    {
+      title: "Write generator manifest",
+      dependsOn: ["Make Project Directory"],
+      // Workspaces are not upgradable yet.
+      skip: () => !!flags.workspace,
+      task: () =>
+        writeManifest(
+          Object.fromEntries(
+            managedFiles.map((f) => [toOutputPath(f), renderTemplate(f)])
+          )
+        ),
+    },
+    {
+      title: "Create a repo",
+      // Only a package that installed, passed its checks and was committed
+      // gets a repo, so a failed run leaves nothing on the host.
+      dependsOn: [
+        "Check availability",
+        "Install Packages",
+        "Lint project",
+        "Test project",
+        "Check build outputs",
+        "Git commit",
+      ],
+      task: () => {
+        if (dryRun) {
+          return logPlan(...host.planCreateRepo());
+        }
+        return host
+          .createRepo()
+          .then((created) => {
+            if (!created) console.log(chalk.yellow("Repo already exists."));
+            process.env.REPO_CREATED = created ? "true" : "";
+            reporter.artifact("repository", host.remoteUrl);
+          })
+          .catch(onHttpError("Failed to create repo"));
+      },
+      skip: () => !createsRepo,
+      outputs: ["REPO_CREATED"],
+      // Leaves a repo that existed before the run alone.
+      undo: () => (process.env.REPO_CREATED ? host.deleteRepo() : undefined),
+    },
+    {
+      title: "Add NPM Token",
+      dependsOn: ["Create a repo"],
+      skip: () => !createsRepo,
+      task: () => {
+        if (dryRun) {
+          return logPlan(...host.planSetSecret("NPM_TOKEN"));
+        }
+        return host
+          .setSecret("NPM_TOKEN", npmToken)
+          .catch(onHttpError("Failed to add secret"));
+      },
+    },
+    {
+      title: "Git init",
+      dependsOn: ["Make Project Directory"],
+      task: () => runCommand("git", ["init"], { stdio: "ignore" }),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Git add",
+      dependsOn: [
+        "Git init",
+        "Write Test Runner Config",
+        "Write tsconfig.json",
+        "Write bundler config",
+        "Write CI workflows",
+        "Write pnpm settings",
+        "Write .gitignore",
+        "Write .eslintrc.json",
+        "Write LICENSE",
+        "Install Packages",
+        "Write src",
+        "Write tests",
+        "Write template overlay",
+        "Write generator manifest",
+      ],
+      task: () => runCommand("git", ["add", "-A"], { stdio: "ignore" }),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Git commit",
+      dependsOn: ["Git add"],
+      task: () =>
+        runCommand(
+          "git",
+          ["commit", "-m", "Initial commit from Create Vargas NPM"],
+          { stdio: "ignore" }
+        ),
+      skip: () => isWorkspacePackage,
+    },
+    {
+      title: "Git remote",
+      // A remote is only worth adding once the repo exists.
+      dependsOn: ["Git init", "Create a repo"],
+      task: () =>
+        runCommand("git", ["remote", "add", "origin", host.remoteUrl]),
+      skip: () => !createsRepo,
     },
-  },
-  {
-    title: "Write src",
-    task: () => {
-      fs.mkdirSync(path.join(root, "src"));
-      if (isReact) {
-        return fs.writeFileSync(
-          path.join(root, "src", "index.tsx"),
-          `import React from "react";
+    {
+      title: "NPM version",
+      // Only a package that passed its checks gets a version to publish.
+      dependsOn: [
+        "Git commit",
+        "Git remote",
+        "Add NPM Token",
+        "Lint project",
+        "Test project",
+        "Check build outputs",
+      ],
+      task: () => runCommand(packageManager, packageManagerCommands.version),
+      // Workspace packages are versioned on their own and the root is private.
+      // Versioning pushes, so it waits for a repo too.
+      skip: () => !!flags.workspace || !createsRepo,
+    },
+    {
+      title: "Git push",
+      dependsOn: ["Git commit", "Git remote", "Add NPM Token"],
+      task: () => runCommand("git", ["push", "origin", "HEAD:main"]),
+      skip: () => !isWorkspaceRoot || !createsRepo,
+    },
+  ];
 
-const Package: React.FunctionComponent = () => <div>Fill out component!</div>;
+  // The built-in tasks along with those of the plugins in the config.
+  const getTasks = () => {
+    try {
+      return applyPlugins(
+        tasks,
+        loadPlugins(config.plugins),
+        {
+          projectName,
+          root,
+          isReact: !!isReact,
+          isCli,
+          config,
+          getSecret: (name) => process.env[name],
+        },
+        { dryRun }
+      );
+    } catch (e) {
+      console.error(chalk.redBright(e.message));
+      return process.exit(1);
+    }
+  };
 
-export default Package;
-`
-        );
-      } else {
-        return fs.writeFileSync(
-          path.join(root, "src", "index.ts"),
-          `const run = (): number => {
-  return 0;
-};
+  // The template contents each managed file was last reconciled with, which
+  // become the merge bases of the next upgrade.
+  const upgradedFiles: Record<string, string> = { ...manifest?.files };
 
-export default run;
-`
-        );
-      }
-    },
-  },
-  {
-    title: "Write tests",
-    task: () => {
-      fs.mkdirSync(path.join(root, "tests"));
-      if (isReact) {
-        return fs.writeFileSync(
-          path.join(root, "tests", "index.test.tsx"),
-          `import React from 'react';
-import Package from '../src';
-import { render } from '@testing-library/react';
-
-test('Renders Package', () => {
-  const { container } = render(<Package/>);
-  expect(container).toBeInTheDocument();
-});
-`
-        );
-      } else {
-        return fs.writeFileSync(
-          path.join(root, "tests", "index.test.ts"),
-          `import run from "../src";
-
-test("Runs Default", () => {
-  expect(run()).toBe(0);
-});
-`
-        );
-      }
+  const upgradeFile = (file: string) => {
+    const output = toOutputPath(file);
+    const filename = path.join(root, output);
+    const theirs = renderTemplate(file);
+    const base = manifest?.files[output];
+    if (!fs.existsSync(filename)) {
+      if (base !== undefined) return logPlan(`Skip ${output}, deleted locally`);
+      mkdir(path.dirname(filename));
+      writeFile(filename, theirs);
+      upgradedFiles[output] = theirs;
+      return;
+    }
+    const ours = fs.readFileSync(filename).toString();
+    if (ours === theirs) {
+      upgradedFiles[output] = theirs;
+      return logPlan(`${output} is up to date`);
+    }
+    if (base === theirs) {
+      return logPlan(`${output} has no template changes`);
+    }
+    // Without a base there is no telling local changes from template ones.
+    const { contents, conflicts } =
+      base === undefined
+        ? { contents: theirs, conflicts: 1 }
+        : mergeFile({ ours, base, theirs });
+    if (conflicts) {
+      console.log(
+        chalk.yellow(
+          output,
+          "conflicts with the template and was left unchanged. Merge these changes by hand:"
+        )
+      );
+      return logPlan(...diffLines(ours, contents));
+    }
+    logPlan(`Update ${output}`, ...diffLines(ours, contents));
+    if (!dryRun) fs.writeFileSync(filename, contents);
+    upgradedFiles[output] = theirs;
+  };
+
+  const upgradeTasks: Task[] = [
+    ...managedFiles.map((file) => ({
+      title: `Upgrade ${toOutputPath(file)}`,
+      task: () => upgradeFile(file),
+    })),
+    {
+      title: "Update generator manifest",
+      dependsOn: managedFiles.map((file) => `Upgrade ${toOutputPath(file)}`),
+      task: () => writeManifest(upgradedFiles),
     },
-  },
-  {
-    title: "Create a github repo",
-    task: () => {
-      return axios
-        .get(`https://api.github.com/repos/dvargas92495/${projectName}`)
-        .then(() => console.log(chalk.yellow("Repo already exists.")))
-        .catch((e) =>
-          e.response?.status === 404
-            ? axios
-                .post(
-                  "https://api.github.com/user/repos",
-                  {
-                    name: projectName,
-                  },
-                  githubOpts
-                )
-                .catch((err) =>
-                  console.log(
-                    chalk.red("Failed to create repo", err.response?.data)
-                  )
-                )
-            : console.log(chalk.red("Failed to check repo", e.response?.data))
-        );
+  ];
+
+  const getSecrets = () => {
+    try {
+      return loadSecrets({ envFile: flags.envFile as string | undefined });
+    } catch (e) {
+      console.error(chalk.redBright(e.message));
+      return process.exit(1);
+    }
+  };
+  const secrets = isSecrets ? getSecrets() : undefined;
+  const secretNames =
+    secretsCommand === "rotate" ? [rotatedSecret] : secrets?.names || [];
+  const hostSecrets: string[] = [];
+
+  const secretsTasks: Task[] = [
+    {
+      title: `List ${host.name} secrets`,
+      // Rotating only touches the one secret.
+      skip: () => secretsCommand === "rotate",
+      task: () =>
+        dryRun
+          ? logPlan(...host.planListSecrets())
+          : host
+              .listSecrets()
+              .then((names) => hostSecrets.push(...names))
+              .catch(onHttpError("Failed to list secrets")),
     },
-    skip: () => !process.env.GITHUB_TOKEN,
-  },
-  {
-    title: "Add NPM Token",
-    task: () => {
-      // https://docs.github.com/en/free-pro-team@latest/rest/reference/actions#example-encrypting-a-secret-using-nodejs
-      const messageBytes = Buffer.from(npmToken);
-      return axios
-        .get(
-          `https://api.github.com/repos/dvargas92495/${projectName}/actions/secrets/public-key`,
-          githubOpts
-        )
-        .then(({ data: { key, key_id } }) => {
-          const keyBytes = Buffer.from(key, "base64");
-          const encryptedBytes = sodium.seal(messageBytes, keyBytes);
-          const encrypted_value = Buffer.from(encryptedBytes).toString(
-            "base64"
+    ...secretNames.map((name) => ({
+      title: `Upload ${name}`,
+      skip: () => secretsCommand === "sync" && !secrets?.getValue(name),
+      task: () => {
+        const value = secrets?.getValue(name);
+        if (!value) {
+          throw new Error(
+            `Could not find a value for ${name} in the environment or ${secrets?.envFile}`
           );
-          return axios.put(
-            `https://api.github.com/repos/dvargas92495/${projectName}/actions/secrets/NPM_TOKEN`,
-            {
-              encrypted_value,
-              key_id,
-            },
-            githubOpts
+        }
+        if (dryRun) {
+          return logPlan(...host.planSetSecret(name));
+        }
+        return host
+          .setSecret(name, value)
+          .catch(onHttpError(`Failed to upload ${name}`));
+      },
+    })),
+    {
+      title: "Report secrets",
+      dependsOn: [
+        `List ${host.name} secrets`,
+        ...secretNames.map((name) => `Upload ${name}`),
+      ],
+      skip: () => secretsCommand === "rotate",
+      task: () => {
+        const missing = secretNames.filter((name) => !secrets?.getValue(name));
+        // Hosts store secret names in upper case.
+        const declared = secretNames.map((name) => name.toUpperCase());
+        const stale = hostSecrets.filter(
+          (name) => !declared.includes(name.toUpperCase())
+        );
+        if (missing.length) {
+          console.log(
+            chalk.yellow(
+              "Missing values for",
+              missing.join(", "),
+              "- set them in the environment or",
+              secrets?.envFile
+            )
           );
-        })
-        .catch((e) =>
+        }
+        if (stale.length) {
           console.log(
-            chalk.red(
-              "Failed to add secret",
-              typeof e.response?.data === "object"
-                ? JSON.stringify(e.response?.data)
-                : e.response?.data
+            chalk.yellow(
+              `Stale secrets on ${host.name} that are no longer declared:`,
+              stale.join(", ")
             )
-          )
-        );
-    },
-  },
-  {
-    title: "Git init",
-    task: () => {
-      process.chdir(root);
-      return sync("git init", { stdio: "ignore" });
-    },
-  },
-  {
-    title: "Git add",
-    task: () => {
-      process.chdir(root);
-      return sync("git add -A", { stdio: "ignore" });
-    },
-  },
-  {
-    title: "Git commit",
-    task: () => {
-      process.chdir(root);
-      return sync('git commit -m "Initial commit from Create Vargas NPM"', {
-        stdio: "ignore",
-      });
-    },
-  },
-  {
-    title: "Git remote",
-    task: () => {
-      process.chdir(root);
-      return new Promise<void>((resolve, reject) => {
-        const child = spawn(
-          "git",
-          [
-            "remote",
-            "add",
-            "origin",
-            `https://github.com/dvargas92495/${projectName}.git`,
-          ],
-          {
-            stdio: "inherit",
-          }
-        );
-        child.on("close", (code) => {
-          if (code !== 0) {
-            reject(code);
-            return;
-          }
-          resolve();
-        });
-      });
+          );
+        }
+      },
     },
-  },
-  {
-    title: "NPM version",
-    task: () => {
-      process.chdir(root);
-      return new Promise<void>((resolve, reject) => {
-        const child = spawn("npm", ["version", "patch"], {
-          stdio: "inherit",
-        });
-        child.on("close", (code) => {
-          if (code !== 0) {
-            reject(code);
-            return;
-          }
-          resolve();
-        });
+  ];
+
+  // npm renames .gitignore files to .npmignore when installing a package, so
+  // the template's copy has to be renamed back.
+  const copyTemplate = (src: string, dest: string): void => {
+    fs.mkdirSync(dest, { recursive: true });
+    fs.readdirSync(src, { withFileTypes: true })
+      .filter((f) => f.name !== "remix.init" && f.name !== "node_modules")
+      .forEach((f) =>
+        f.isDirectory()
+          ? copyTemplate(path.join(src, f.name), path.join(dest, f.name))
+          : fs.copyFileSync(
+              path.join(src, f.name),
+              path.join(dest, f.name === ".npmignore" ? ".gitignore" : f.name)
+            )
+      );
+  };
+
+  // Apps create their repo on GitHub, named after their domain, so a taken one
+  // stops them before anything is bought or created.
+  const checkAppRepo = () => {
+    if (
+      flags.resume ||
+      !flags.preflight ||
+      flags.offline ||
+      !process.env.GITHUB_TOKEN
+    ) {
+      return Promise.resolve();
+    }
+    const appHost = createHost("github", {
+      owner,
+      repo: path.basename(root),
+      url: config.hostUrl || undefined,
+    });
+    return appHost
+      .repoExists()
+      .catch(onHttpError("Failed to check the repo"))
+      .then((exists) => {
+        if (exists) {
+          return Promise.reject(`Repo ${appHost.remoteUrl} already exists.`);
+        }
       });
-    },
-  },
-];
+  };
+
+  // Loaded only for apps, as aws-sdk and mysql slow down every other run.
+  const loadApp = () => import("./template/remix.init");
+
+  const runApp = () => {
+    if (fs.existsSync(root) && !flags.resume) {
+      return Promise.reject(
+        `Directory ${root} already exists. Pass --resume to continue a previous run.`
+      );
+    }
+    return checkAppRepo()
+      .then(() => {
+        if (!fs.existsSync(root)) {
+          console.log(chalk.blue("Copying app template to", root, "..."));
+          copyTemplate(templatePath(), root);
+        }
+        return fs.existsSync(path.join(root, "node_modules"))
+          ? undefined
+          : runCommand("npm", ["install", ...offlineArgs]);
+      })
+      .then(loadApp)
+      .then(({ default: createApp }) =>
+        createApp({
+          rootDirectory: root,
+          resume: flags.resume,
+          rollback: flags.rollbackOnFailure,
+          config,
+          reporter,
+          spawner,
+          commandOutput:
+            flags.reporter === "json" ? process.stderr : process.stdout,
+        })
+      );
+  };
 
-const runTask = (
-  task: Task
-): Promise<{ success: boolean; message?: string }> => {
-  console.log(chalk.blue("Running", task.title, "..."));
-  if (task.skip?.()) {
-    console.log(chalk.blueBright("Skipped", task.title));
-    return Promise.resolve({ success: true });
+  // Failed runs exit with a non-zero code, for scripts and CI to notice.
+  const fail = (e: unknown) => {
+    console.error(chalk.redBright(e));
+    process.exitCode = 1;
+  };
+
+  if (isWizard) {
+    return runWizard({
+      argv: argv.slice(2),
+      license: config.license,
+      hostName: host.name,
+      canCreateRepo: !!process.env[host.tokenEnv],
+    }).then(
+      (args) =>
+        new Promise<void>((resolve) => {
+          if (!args) {
+            console.log(chalk.yellow("Cancelled."));
+            return resolve();
+          }
+          // Everything above is set up from the command line, so the answers
+          // run as a new command.
+          spawner
+            .spawn(process.execPath, [argv[1], ...args], {
+              stdio: "inherit",
+            })
+            .on("close", (code) => {
+              process.exitCode = code ?? 1;
+              resolve();
+            });
+        })
+    );
+  }
+  if (flags.app) {
+    return dryRun
+      ? Promise.resolve(fail("--dry-run is not supported with --app"))
+      : runApp().catch(fail);
   }
-  return Promise.resolve(task.task)
-    .then((t) => t())
-    .then(() => {
-      console.log(chalk.greenBright("Successfully Ran", task.title));
-      return { success: true as const };
+  if (isUpgrade) {
+    return runTasks(upgradeTasks, {
+      root,
+      checkpointFile: UPGRADE_CHECKPOINT_FILE,
+      resume: flags.resume,
+      dryRun,
+      reporter,
     })
-    .catch((e) => {
-      console.log(chalk.redBright("Failed to run", task.title));
-      return { success: false as const, message: e.message };
-    });
-};
-
-const run = async () => {
-  for (const task of tasks) {
-    const result = await runTask(task);
-    if (!result.success) {
-      const rest = tasks.slice(tasks.indexOf(task) + 1);
-      rest.forEach((r) =>
+      .then(() =>
         console.log(
-          chalk.grey(
-            "Skipped task",
-            r.title,
-            "due to failure from previous task"
+          chalk.greenBright(
+            dryRun
+              ? `Dry run of the upgrade of ${projectName} complete. Nothing was written.`
+              : `${projectName} is upgraded to create-vargas-npm ${version}!`
           )
         )
+      )
+      .catch(fail);
+  }
+  if (isSecrets) {
+    if (!dryRun && !process.env[host.tokenEnv]) {
+      return Promise.resolve(
+        fail(`Set ${host.tokenEnv} to manage secrets on ${host.name}`)
       );
-      return Promise.reject(result.message);
     }
+    return runTasks(secretsTasks, {
+      root,
+      checkpointFile: SECRETS_CHECKPOINT_FILE,
+      resume: flags.resume,
+      dryRun,
+      reporter,
+    })
+      .then(() =>
+        console.log(
+          chalk.greenBright(
+            dryRun
+              ? `Dry run of the secrets of ${projectName} complete. Nothing was uploaded.`
+              : `Secrets of ${projectName} are up to date on ${host.name}!`
+          )
+        )
+      )
+      .catch(fail);
   }
+  if (flags.task) {
+    const task = getTasks().find((t) => t.title === flags.task);
+    if (!task) {
+      return Promise.resolve(fail(`Failed to find task of name ${flags.task}`));
+    }
+    return runTask(task, { dryRun, reporter }).then((s) =>
+      s.success ? console.log(chalk.green("Done!")) : fail(s.message)
+    );
+  }
+  return runTasks(getTasks(), {
+    root,
+    resume: flags.resume,
+    rollback: flags.rollbackOnFailure,
+    dryRun,
+    reporter,
+  })
+    .then(() =>
+      console.log(
+        chalk.greenBright(
+          dryRun
+            ? `Dry run for ${projectName} complete. Nothing was written.`
+            : isWorkspaceRoot
+            ? `${projectName} is Ready! Add packages by running this command again with --workspace from inside it.`
+            : `${projectName} is Ready!`
+        )
+      )
+    )
+    .catch(fail);
 };
 
-if (flags.task) {
-  const task = tasks.find((t) => t.title === flags.task);
-  if (task)
-    runTask(task).then((s) =>
-      s.success
-        ? console.log(chalk.green("Done!"))
-        : console.error(chalk.redBright(s.message))
-    );
-  else
-    console.error(chalk.redBright(`Failed to find task of name ${flags.task}`));
-} else {
-  run()
-    .then(() => console.log(chalk.greenBright(`${projectName} is Ready!`)))
-    .catch((e) => console.error(chalk.redBright(e)));
-}
+export default main;
+
+if (require.main === module) main();
@@ -0,0 +1,73 @@
+export const BUNDLERS = ["tsc", "esbuild", "tsup", "rollup"];
+
+export const validateBundler = (bundler: string) => {
+  if (!BUNDLERS.includes(bundler)) {
+    throw new Error(
+      `Unsupported bundler ${bundler}. Use one of ${BUNDLERS.join(", ")}`
+    );
+  }
+};
+
+// Dev packages installed on top of typescript, which every bundler needs.
+const dependencies: Record<string, string[]> = {
+  esbuild: ["esbuild"],
+  tsup: ["tsup"],
+  rollup: [
+    "rollup",
+    "@rollup/plugin-terser",
+    "@rollup/plugin-typescript",
+    "tslib",
+  ],
+};
+
+export const getBundlerDependencies = (bundler: string) =>
+  dependencies[bundler] || [];
+
+// Template written to the package root for the bundler, if it has one.
+const configFiles: Record<string, string> = {
+  esbuild: "esbuild.config.mjs",
+  tsup: "tsup.config.ts",
+  rollup: "rollup.config.mjs",
+};
+
+export const getBundlerConfigFile = (bundler: string) =>
+  configFiles[bundler] || "";
+
+const getBundleCommand = (bundler: string, format: string) =>
+  bundler === "tsc"
+    ? format === "dual"
+      ? "tsc && tsc -p tsconfig.cjs.json"
+      : "tsc"
+    : bundler === "tsup"
+    ? "tsup"
+    : `${bundler === "rollup" ? "rollup -c" : "node"} ${configFiles[bundler]}`;
+
+// The bundlers only emit JavaScript, so tsc writes the declarations next to
+// it. tsup could emit them too, but names the ESM ones .d.mts in dual mode.
+const getDeclarationCommand = (bundler: string, format: string) =>
+  bundler !== "tsc"
+    ? format === "dual"
+      ? [
+          "tsc --emitDeclarationOnly",
+          "tsc -p tsconfig.cjs.json --emitDeclarationOnly",
+        ]
+      : ["tsc --emitDeclarationOnly"]
+    : [];
+
+// The package itself has no `type` in dual mode, so dist/esm needs its own
+// package.json for Node to load those files as ES modules.
+const ESM_PACKAGE_COMMAND = `node -e "require('fs').writeFileSync('dist/esm/package.json', JSON.stringify({ type: 'module' }))"`;
+
+// Compilers keep the shebang of the CLI's entry but not its executable bit.
+const getChmodCommand = (binPath: string) =>
+  `node -e "require('fs').chmodSync('${binPath}', 0o755)"`;
+
+const getBuildScript = (bundler: string, format: string, binPath = "") =>
+  [
+    getBundleCommand(bundler, format),
+    ...getDeclarationCommand(bundler, format),
+    ...(format === "dual" ? [ESM_PACKAGE_COMMAND] : []),
+    ...(binPath ? [getChmodCommand(binPath)] : []),
+  ].join(" && ");
+
+export default getBuildScript;
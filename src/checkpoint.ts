@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+
+export const CHECKPOINT_FILE = ".create-vargas-state.json";
+// Upgrades and secrets keep their own, so that they leave the checkpoint of a
+// failed scaffold run alone.
+export const UPGRADE_CHECKPOINT_FILE = ".create-vargas-upgrade-state.json";
+export const SECRETS_CHECKPOINT_FILE = ".create-vargas-secrets-state.json";
+// Matches all of the above, for .gitignore files.
+export const CHECKPOINT_PATTERN = ".create-vargas-*state.json";
+
+export type Checkpoint = {
+  completed: string[];
+  outputs: Record<string, string>;
+  // Completed tasks that actually ran and can be undone, in the order they
+  // finished. Missing from checkpoints of older versions.
+  undoable?: string[];
+};
+
+const checkpointPath = (root: string, file = CHECKPOINT_FILE) =>
+  path.join(root, file);
+
+export const hasCheckpoint = (root: string, file = CHECKPOINT_FILE) =>
+  fs.existsSync(checkpointPath(root, file));
+
+export const readCheckpoint = (
+  root: string,
+  file = CHECKPOINT_FILE
+): Checkpoint =>
+  hasCheckpoint(root, file)
+    ? JSON.parse(fs.readFileSync(checkpointPath(root, file)).toString())
+    : { completed: [], outputs: {} };
+
+// The checkpoint can hold generated credentials, so keep it owner readable only.
+export const writeCheckpoint = (
+  root: string,
+  checkpoint: Checkpoint,
+  file = CHECKPOINT_FILE
+) => {
+  if (!fs.existsSync(root)) return;
+  fs.writeFileSync(
+    checkpointPath(root, file),
+    JSON.stringify(checkpoint, null, 2),
+    { mode: 0o600 }
+  );
+};
+
+export const clearCheckpoint = (root: string, file = CHECKPOINT_FILE) => {
+  if (hasCheckpoint(root, file)) fs.unlinkSync(checkpointPath(root, file));
+};
+
+// Records a finished task along with the env values it produced, so that a
+// resumed run can restore them for the tasks that still need them.
+export const completeTask = (
+  root: string,
+  checkpoint: Checkpoint,
+  {
+    title,
+    outputs = [],
+    undoable = false,
+  }: { title: string; outputs?: string[]; undoable?: boolean },
+  file = CHECKPOINT_FILE
+) => {
+  checkpoint.completed.push(title);
+  if (undoable) checkpoint.undoable = [...(checkpoint.undoable || []), title];
+  outputs.forEach((env) => {
+    const value = process.env[env];
+    if (value !== undefined) checkpoint.outputs[env] = value;
+  });
+  writeCheckpoint(root, checkpoint, file);
+};
+
+// Forgets an undone task, so that a resumed run does it again.
+export const undoTask = (
+  root: string,
+  checkpoint: Checkpoint,
+  title: string,
+  file = CHECKPOINT_FILE
+) => {
+  checkpoint.completed = checkpoint.completed.filter((t) => t !== title);
+  checkpoint.undoable = (checkpoint.undoable || []).filter((t) => t !== title);
+  writeCheckpoint(root, checkpoint, file);
+};
+
+export const restoreOutputs = (checkpoint: Checkpoint) =>
+  Object.entries(checkpoint.outputs).forEach(([env, value]) => {
+    process.env[env] = value;
+  });
@@ -0,0 +1,39 @@
+export const parseNodeVersions = (versions: string) =>
+  versions
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+// Major versions, optionally with a minor and patch, like 22, 22.x or 22.11.0.
+export const validateNodeVersions = (versions: string) => {
+  const invalid = parseNodeVersions(versions).filter(
+    (v) => !/^\d+(\.(\d+|x)){0,2}$/.test(v)
+  );
+  if (!parseNodeVersions(versions).length || invalid.length) {
+    throw new Error(
+      `Unsupported Node versions ${versions}. Use a comma separated list like 22,24`
+    );
+  }
+};
+
+// Values the CI workflow templates use. Pull requests are checked on every
+// version, and packages are published from the last one.
+const getCiView = ({
+  nodeVersions,
+  provenance,
+  releases,
+}: {
+  nodeVersions: string;
+  provenance: boolean;
+  releases: boolean;
+}) => {
+  const versions = parseNodeVersions(nodeVersions);
+  return {
+    nodeVersions: JSON.stringify(versions),
+    nodeVersion: versions[versions.length - 1],
+    provenance,
+    releases,
+  };
+};
+
+export default getCiView;
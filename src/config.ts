@@ -0,0 +1,101 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { validateNodeVersions } from "./ci";
+import { validateHost } from "./hosts";
+import { validateErrorPolicy } from "./http";
+import { validateLicense } from "./licenses";
+
+export type Config = {
+  owner: string;
+  scope: string;
+  author: string;
+  email: string;
+  domain: string;
+  terraformOrganization: string;
+  terraformUrl: string;
+  awsProfile: string;
+  awsEndpoint: string;
+  rdsInstance: string;
+  rdsUser: string;
+  license: string;
+  copyrightHolder: string;
+  host: string;
+  hostUrl: string;
+  onError: string;
+  nodeVersions: string;
+  plugins: string;
+  registryUrl: string;
+};
+
+export const CONFIG_FILE = ".vargasrc.json";
+export const CONFIG_KEY = "create-vargas";
+
+const defaultConfig: Config = {
+  owner: "dvargas92495",
+  scope: "dvargas92495",
+  author: "David Vargas",
+  email: "dvargas92495@gmail.com",
+  domain: "davidvargas.me",
+  terraformOrganization: "VargasArts",
+  terraformUrl: "https://app.terraform.io",
+  awsProfile: "davidvargas",
+  // Every AWS client calls this endpoint, like LocalStack's, instead of the
+  // service's own when set.
+  awsEndpoint: "",
+  // The shared RDS instance apps get their database on, and its master user.
+  rdsInstance: "vargas-arts",
+  rdsUser: "dvargas92495",
+  license: "MIT",
+  // Falls back to the author when left empty.
+  copyrightHolder: "",
+  host: "github",
+  // The public instance of the host when left empty.
+  hostUrl: "",
+  onError: "fail",
+  // Checked in CI, comma separated. Packages are published from the last.
+  nodeVersions: "22,24",
+  // Comma separated modules adding tasks to the run.
+  plugins: "",
+  registryUrl: "https://registry.npmjs.org",
+};
+
+export const readJson = (file: string) =>
+  fs.existsSync(file) ? JSON.parse(fs.readFileSync(file).toString()) : {};
+
+// Only keep the known keys that were actually set, so that an unset CLI flag
+// does not clobber a value from a config file.
+const pickConfig = (source: Record<string, unknown> = {}): Partial<Config> =>
+  Object.fromEntries(
+    Object.keys(defaultConfig)
+      .filter((k) => typeof source[k] === "string" && source[k])
+      .map((k) => [k, source[k]])
+  );
+
+// Precedence, lowest to highest: defaults, ~/.vargasrc.json, the
+// `create-vargas` key of the package.json in cwd, then CLI flags.
+const loadConfig = (
+  overrides: Record<string, unknown> = {},
+  cwd = process.cwd()
+): Config => {
+  const userConfig = readJson(path.join(os.homedir(), CONFIG_FILE));
+  const projectConfig = readJson(path.join(cwd, "package.json"))[CONFIG_KEY];
+  const config = {
+    ...defaultConfig,
+    ...pickConfig(userConfig),
+    ...pickConfig(projectConfig),
+    ...pickConfig(overrides),
+  };
+  validateLicense(config.license);
+  validateHost(config.host);
+  validateErrorPolicy(config.onError);
+  validateNodeVersions(config.nodeVersions);
+  return {
+    ...config,
+    scope: config.scope.replace(/^@/, ""),
+    copyrightHolder: config.copyrightHolder || config.author,
+    hostUrl: config.hostUrl.replace(/\/+$/, ""),
+  };
+};
+
+export default loadConfig;
@@ -0,0 +1,40 @@
+import chalk from "chalk";
+
+// Line based diff using the longest common subsequence of both files.
+// Config files this tool writes are small, so the quadratic table is fine.
+const diffLines = (before: string, after: string): string[] => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  const lcs = a.map(() => new Array<number>(b.length + 1).fill(0));
+  lcs.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      lines.push(chalk.green(`+ ${b[j]}`));
+      j++;
+    } else {
+      lines.push(chalk.red(`- ${a[i]}`));
+      i++;
+    }
+  }
+  return lines;
+};
+
+export default diffLines;
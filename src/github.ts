@@ -0,0 +1,24 @@
+import { AxiosRequestConfig } from "axios";
+import http from "./http";
+
+export const GITHUB_URL = "https://github.com";
+
+// GitHub Enterprise serves its API under the instance's own domain.
+export const getGithubApiUrl = (url = GITHUB_URL) =>
+  url === GITHUB_URL ? "https://api.github.com" : `${url}/api/v3`;
+
+// Repos owned by an organization have to be created through the org endpoint,
+// while personal repos are created for the authenticated user. Gitea's API
+// follows GitHub's here, so it passes its own base URL.
+export const getCreateRepoUrl = (
+  owner: string,
+  opts: AxiosRequestConfig,
+  api = getGithubApiUrl()
+) =>
+  http
+    .get<{ login: string }>(`${api}/user`, opts)
+    .then((r) =>
+      r.data.login === owner
+        ? `${api}/user/repos`
+        : `${api}/orgs/${owner}/repos`
+    );
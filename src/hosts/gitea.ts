@@ -0,0 +1,62 @@
+import http from "../http";
+import { getCreateRepoUrl } from "../github";
+import { Host, HostOptions } from ".";
+
+const GITEA_URL = "https://gitea.com";
+
+const createGitea = ({
+  owner,
+  repo,
+  url = GITEA_URL,
+  token = process.env.GITEA_TOKEN || "",
+}: HostOptions): Host => {
+  const api = `${url}/api/v1`;
+  const repoApi = `${api}/repos/${owner}/${repo}`;
+  const opts = { headers: { Authorization: `token ${token}` } };
+  const remoteUrl = `${url}/${owner}/${repo}.git`;
+  const repoExists = () =>
+    http
+      .get(repoApi, opts)
+      .then(() => true)
+      .catch((e) => (e.status === 404 ? false : Promise.reject(e)));
+  return {
+    name: "Gitea",
+    tokenEnv: "GITEA_TOKEN",
+    remoteUrl,
+    repository: `git+${remoteUrl}`,
+    // Gitea Actions runs GitHub's workflow syntax, and reads .github/workflows
+    // when a repo has no .gitea/workflows. It has no gh CLI to release with.
+    workflowFiles: [".github/workflows/ci.yaml", ".github/workflows/main.yaml"],
+    provenance: false,
+    releases: false,
+    repoExists,
+    createRepo: () =>
+      repoExists().then((exists) =>
+        exists
+          ? false
+          : getCreateRepoUrl(owner, opts, api)
+              .then((createUrl) => http.post(createUrl, { name: repo }, opts))
+              .then(() => true)
+      ),
+    deleteRepo: () => http.delete(repoApi, opts),
+    // Gitea encrypts secrets server side, so they are sent as is.
+    setSecret: (name, value) =>
+      http.put(`${repoApi}/actions/secrets/${name}`, { data: value }, opts),
+    // Gitea caps pages at its MAX_RESPONSE_ITEMS setting, 50 by default.
+    listSecrets: () =>
+      http
+        .get<{ name: string }[]>(`${repoApi}/actions/secrets?limit=50`, opts)
+        .then(({ data }) => data.map((s) => s.name)),
+    planRepoExists: () => [`GET ${repoApi}`],
+    planCreateRepo: () => [
+      `GET ${repoApi}`,
+      `POST ${api}/user/repos or ${api}/orgs/${owner}/repos ${JSON.stringify({
+        name: repo,
+      })} (if the repo does not exist)`,
+    ],
+    planSetSecret: (name) => [`PUT ${repoApi}/actions/secrets/${name}`],
+    planListSecrets: () => [`GET ${repoApi}/actions/secrets?limit=50`],
+  };
+};
+
+export default createGitea;
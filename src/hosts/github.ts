@@ -0,0 +1,92 @@
+import http from "../http";
+import sodium from "tweetsodium";
+import { getCreateRepoUrl, getGithubApiUrl, GITHUB_URL } from "../github";
+import { Host, HostOptions } from ".";
+
+const createGithub = ({
+  owner,
+  repo,
+  url = GITHUB_URL,
+  token = process.env.GITHUB_TOKEN || "",
+}: HostOptions): Host => {
+  const api = getGithubApiUrl(url);
+  const repoApi = `${api}/repos/${owner}/${repo}`;
+  const opts = { headers: { Authorization: `token ${token}` } };
+  const remoteUrl = `${url}/${owner}/${repo}.git`;
+  const repoExists = () =>
+    http
+      .get(repoApi, opts)
+      .then(() => true)
+      .catch((e) => (e.status === 404 ? false : Promise.reject(e)));
+  // Every secret is sealed with the same key, so it is only fetched once. A
+  // failed fetch is forgotten, for the next secret to try again.
+  let publicKey: Promise<{ key: string; key_id: string }> | undefined;
+  const getPublicKey = () => {
+    publicKey =
+      publicKey ||
+      http
+        .get(`${repoApi}/actions/secrets/public-key`, opts)
+        .then((r) => r.data)
+        .catch((e) => {
+          publicKey = undefined;
+          return Promise.reject(e);
+        });
+    return publicKey;
+  };
+  return {
+    name: "GitHub",
+    tokenEnv: "GITHUB_TOKEN",
+    remoteUrl,
+    repository: url === GITHUB_URL ? `${owner}/${repo}` : `git+${remoteUrl}`,
+    workflowFiles: [".github/workflows/ci.yaml", ".github/workflows/main.yaml"],
+    provenance: url === GITHUB_URL,
+    releases: true,
+    repoExists,
+    createRepo: () =>
+      repoExists().then((exists) =>
+        exists
+          ? false
+          : getCreateRepoUrl(owner, opts, api)
+              .then((createUrl) => http.post(createUrl, { name: repo }, opts))
+              .then(() => true)
+      ),
+    deleteRepo: () => http.delete(repoApi, opts),
+    // https://docs.github.com/en/free-pro-team@latest/rest/reference/actions#example-encrypting-a-secret-using-nodejs
+    setSecret: (name, value) =>
+      getPublicKey().then(({ key, key_id }) => {
+        const messageBytes = Buffer.from(value);
+        const keyBytes = Buffer.from(key, "base64");
+        const encryptedBytes = sodium.seal(messageBytes, keyBytes);
+        const encrypted_value = Buffer.from(encryptedBytes).toString("base64");
+        return http.put(
+          `${repoApi}/actions/secrets/${name}`,
+          {
+            encrypted_value,
+            key_id,
+          },
+          opts
+        );
+      }),
+    listSecrets: () =>
+      http
+        .get<{ secrets: { name: string }[] }>(
+          `${repoApi}/actions/secrets?per_page=100`,
+          opts
+        )
+        .then(({ data }) => data.secrets.map((s) => s.name)),
+    planRepoExists: () => [`GET ${repoApi}`],
+    planCreateRepo: () => [
+      `GET ${repoApi}`,
+      `POST ${api}/user/repos or ${api}/orgs/${owner}/repos ${JSON.stringify({
+        name: repo,
+      })} (if the repo does not exist)`,
+    ],
+    planSetSecret: (name) => [
+      `GET ${repoApi}/actions/secrets/public-key`,
+      `PUT ${repoApi}/actions/secrets/${name} (value encrypted with the repo public key)`,
+    ],
+    planListSecrets: () => [`GET ${repoApi}/actions/secrets?per_page=100`],
+  };
+};
+
+export default createGithub;
@@ -0,0 +1,92 @@
+import http from "../http";
+import { Host, HostOptions } from ".";
+
+const GITLAB_URL = "https://gitlab.com";
+
+// GitLab refuses to mask values shorter than 8 characters or with characters
+// outside of these, so such values are stored unmasked instead.
+const isMaskable = (value: string) => /^[A-Za-z0-9+/=@:.~_-]{8,}$/.test(value);
+
+const createGitlab = ({
+  owner,
+  repo,
+  url = GITLAB_URL,
+  token = process.env.GITLAB_TOKEN || "",
+}: HostOptions): Host => {
+  const api = `${url}/api/v4`;
+  const projectApi = `${api}/projects/${encodeURIComponent(
+    `${owner}/${repo}`
+  )}`;
+  const opts = { headers: { "PRIVATE-TOKEN": token } };
+  const remoteUrl = `${url}/${owner}/${repo}.git`;
+  const repoExists = () =>
+    http
+      .get(projectApi, opts)
+      .then(() => true)
+      .catch((e) => (e.status === 404 ? false : Promise.reject(e)));
+  return {
+    name: "GitLab",
+    tokenEnv: "GITLAB_TOKEN",
+    remoteUrl,
+    repository:
+      url === GITLAB_URL ? `gitlab:${owner}/${repo}` : `git+${remoteUrl}`,
+    workflowFiles: [".gitlab-ci.yml"],
+    provenance: url === GITLAB_URL,
+    releases: true,
+    repoExists,
+    // Users and groups both own projects through their namespace.
+    createRepo: () =>
+      repoExists().then((exists) =>
+        exists
+          ? false
+          : http
+              .get<{ id: number }>(
+                `${api}/namespaces/${encodeURIComponent(owner)}`,
+                opts
+              )
+              .then(({ data }) =>
+                http.post(
+                  `${api}/projects`,
+                  { name: repo, path: repo, namespace_id: data.id },
+                  opts
+                )
+              )
+              .then(() => true)
+      ),
+    deleteRepo: () => http.delete(projectApi, opts),
+    // CI/CD variables are stored as is and masked in job logs when they can be.
+    setSecret: (name, value) => {
+      const masked = isMaskable(value);
+      return http
+        .put(`${projectApi}/variables/${name}`, { value, masked }, opts)
+        .catch((e) =>
+          e.status === 404
+            ? http.post(
+                `${projectApi}/variables`,
+                { key: name, value, masked },
+                opts
+              )
+            : Promise.reject(e)
+        );
+    },
+    listSecrets: () =>
+      http
+        .get<{ key: string }[]>(`${projectApi}/variables?per_page=100`, opts)
+        .then(({ data }) => data.map((v) => v.key)),
+    planRepoExists: () => [`GET ${projectApi}`],
+    planCreateRepo: () => [
+      `GET ${projectApi}`,
+      `GET ${api}/namespaces/${encodeURIComponent(owner)}`,
+      `POST ${api}/projects ${JSON.stringify({
+        name: repo,
+        path: repo,
+      })} (if the project does not exist)`,
+    ],
+    planSetSecret: (name) => [
+      `PUT ${projectApi}/variables/${name} (or POST ${projectApi}/variables if it is new)`,
+    ],
+    planListSecrets: () => [`GET ${projectApi}/variables?per_page=100`],
+  };
+};
+
+export default createGitlab;
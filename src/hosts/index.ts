@@ -0,0 +1,59 @@
+import createGitea from "./gitea";
+import createGithub from "./github";
+import createGitlab from "./gitlab";
+
+export type HostOptions = {
+  owner: string;
+  repo: string;
+  // Base URL of a self-hosted instance, the public one of the host if empty.
+  url?: string;
+  // Read from the host's token env variable when omitted.
+  token?: string;
+};
+
+export type Host = {
+  name: string;
+  // Env variable the API token is read from.
+  tokenEnv: string;
+  remoteUrl: string;
+  // Value of the package.json `repository` field.
+  repository: string;
+  // Templates of the CI workflows that check and publish the package.
+  workflowFiles: string[];
+  // Whether npm can verify the provenance of packages published from its CI,
+  // which only works on the public instances.
+  provenance: boolean;
+  // Whether the publish workflow creates a release with notes.
+  releases: boolean;
+  repoExists: () => Promise<boolean>;
+  // Resolves to false when the repo exists already.
+  createRepo: () => Promise<boolean>;
+  // Needs a token allowed to delete repos, which GitHub scopes separately.
+  deleteRepo: () => Promise<unknown>;
+  setSecret: (name: string, value: string) => Promise<unknown>;
+  // Names of the secrets stored for the repo's CI.
+  listSecrets: () => Promise<string[]>;
+  // Requests the methods above make, printed by dry runs.
+  planRepoExists: () => string[];
+  planCreateRepo: () => string[];
+  planSetSecret: (name: string) => string[];
+  planListSecrets: () => string[];
+};
+
+const hosts: Record<string, (options: HostOptions) => Host> = {
+  github: createGithub,
+  gitlab: createGitlab,
+  gitea: createGitea,
+};
+
+export const HOSTS = Object.keys(hosts);
+
+export const validateHost = (host: string) => {
+  if (!hosts[host]) {
+    throw new Error(`Unsupported host ${host}. Use one of ${HOSTS.join(", ")}`);
+  }
+};
+
+const createHost = (host: string, options: HostOptions) => hosts[host](options);
+
+export default createHost;
@@ -0,0 +1,178 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import chalk from "chalk";
+
+// What tasks do when a request still fails after its retries: fail the task,
+// or print a warning and carry on.
+export const ERROR_POLICIES = ["fail", "warn"];
+
+export const validateErrorPolicy = (policy: string) => {
+  if (!ERROR_POLICIES.includes(policy)) {
+    throw new Error(
+      `Unsupported error policy ${policy}. Use one of ${ERROR_POLICIES.join(
+        ", "
+      )}`
+    );
+  }
+};
+
+export type HttpError = Error & {
+  method: string;
+  url: string;
+  // Missing when the request never got a response.
+  status?: number;
+  data?: unknown;
+};
+
+export type HttpClient = {
+  get: <T = any>(
+    url: string,
+    config?: AxiosRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  post: <T = any>(
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  put: <T = any>(
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  delete: <T = any>(
+    url: string,
+    config?: AxiosRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+};
+
+// Network errors worth another try. Refused connections and unknown hosts
+// are not going to fix themselves.
+const TRANSIENT_CODES = [
+  "ECONNABORTED",
+  "ECONNRESET",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ETIMEDOUT",
+];
+
+// Requests that are safe to send twice, even if the first one got through.
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// GitHub answers 403 when a rate limit is hit, other hosts 429.
+const isRateLimited = ({ response }: AxiosError) =>
+  response?.status === 429 ||
+  (response?.status === 403 &&
+    (!!response.headers["retry-after"] ||
+      response.headers["x-ratelimit-remaining"] === "0"));
+
+const isTransient = ({ response, code = "" }: AxiosError) =>
+  response
+    ? response.status >= 500 && response.status !== 501
+    : TRANSIENT_CODES.includes(code);
+
+// Milliseconds the host asked to wait for, if any. Retry-After holds either
+// seconds or a date, and X-RateLimit-Reset the epoch seconds of the reset.
+// Values that parse as neither leave the wait to the usual backoff.
+const getRateLimitDelay = ({ response }: AxiosError) => {
+  const retryAfter = response?.headers["retry-after"];
+  const reset = response?.headers["x-ratelimit-reset"];
+  const delay = retryAfter
+    ? /^\d+$/.test(retryAfter)
+      ? Number(retryAfter) * 1000
+      : Date.parse(retryAfter) - Date.now()
+    : reset
+    ? Number(reset) * 1000 - Date.now()
+    : undefined;
+  return delay === undefined || isNaN(delay) ? undefined : delay;
+};
+
+const toHttpError = (
+  e: AxiosError,
+  method: string,
+  url: string,
+  rateLimitDelay?: number
+): HttpError => {
+  const data = e.response?.data;
+  const details =
+    typeof data === "object" ? JSON.stringify(data) : data || e.message;
+  const until =
+    rateLimitDelay === undefined || rateLimitDelay <= 0
+      ? ""
+      : ` (rate limited until ${new Date(
+          Date.now() + rateLimitDelay
+        ).toLocaleTimeString()})`;
+  return Object.assign(
+    new Error(
+      `${method} ${url} failed${
+        e.response ? ` with ${e.response.status}` : ""
+      }: ${details}${until}`
+    ),
+    { method, url, status: e.response?.status, data }
+  );
+};
+
+// Retries transient failures with exponential backoff, and rate limited
+// requests once the host says the limit resets. Waits longer than maxDelay
+// fail right away instead.
+export const createHttpClient = ({
+  retries = 3,
+  minDelay = 1000,
+  maxDelay = 60000,
+  timeout = 30000,
+}: {
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  timeout?: number;
+} = {}): HttpClient => {
+  const request = <T>(
+    config: AxiosRequestConfig & { url: string; method: string },
+    attempt = 0
+  ): Promise<AxiosResponse<T>> =>
+    axios.request<T>({ timeout, ...config }).catch((e: AxiosError) => {
+      const method = config.method.toUpperCase();
+      const rateLimited = isRateLimited(e);
+      const rateLimitDelay = rateLimited ? getRateLimitDelay(e) : undefined;
+      const delay = Math.max(
+        rateLimitDelay ?? minDelay * 2 ** attempt,
+        minDelay
+      );
+      const retryable =
+        rateLimited || (isTransient(e) && IDEMPOTENT_METHODS.includes(method));
+      if (!retryable || attempt >= retries || delay > maxDelay) {
+        return Promise.reject(
+          toHttpError(e, method, config.url, rateLimitDelay)
+        );
+      }
+      console.log(
+        chalk.yellow(
+          `${method} ${config.url} failed${
+            e.response ? ` with ${e.response.status}` : `: ${e.code}`
+          }, retrying in ${Math.ceil(delay / 1000)}s`
+        )
+      );
+      return sleep(delay).then(() => request<T>(config, attempt + 1));
+    });
+  return {
+    get: (url, config) => request({ ...config, url, method: "get" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "post" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "put" }),
+    delete: (url, config) => request({ ...config, url, method: "delete" }),
+  };
+};
+
+// Lets a task carry on after a failed request under the warn policy.
+export const handleHttpError =
+  (policy: string, message: string) => (e: Error) => {
+    if (policy !== "warn") {
+      return Promise.reject(new Error(`${message}: ${e.message}`));
+    }
+    console.log(chalk.yellow(`${message}, continuing anyway: ${e.message}`));
+  };
+
+const http = createHttpClient();
+
+export default http;
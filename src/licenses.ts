@@ -0,0 +1,33 @@
+import fs from "fs";
+import { templatesPath } from "./paths";
+import { renderString } from "./templates";
+
+// SPDX identifiers of the licenses with a text in templates/licenses.
+export const LICENSES = [
+  "MIT",
+  "Apache-2.0",
+  "ISC",
+  "BSD-2-Clause",
+  "BSD-3-Clause",
+  "UNLICENSED",
+];
+
+export const validateLicense = (license: string) => {
+  if (!LICENSES.includes(license)) {
+    throw new Error(
+      `Unsupported license ${license}. Use one of ${LICENSES.join(", ")}`
+    );
+  }
+};
+
+// UNLICENSED packages are proprietary, so they are never published publicly.
+export const getPublishAccess = (license: string) =>
+  license === "UNLICENSED" ? "restricted" : "public";
+
+const renderLicense = (license: string, holder: string) =>
+  renderString(fs.readFileSync(templatesPath("licenses", license)).toString(), {
+    year: new Date().getFullYear(),
+    holder,
+  });
+
+export default renderLicense;
@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+
+export const MANIFEST_FILE = ".create-vargas.json";
+
+// Everything the templates were rendered with, so that `upgrade` can render
+// them again for the same project.
+export type ManifestOptions = {
+  rawName: string;
+  projectName: string;
+  owner: string;
+  author: string;
+  email: string;
+  license: string;
+  copyrightHolder: string;
+  host?: string;
+  hostUrl?: string;
+  nodeVersions?: string;
+  module: string;
+  bundler: string;
+  testRunner: string;
+  packageManager?: string;
+  packageManagerVersion?: string;
+  react: boolean;
+  cli: boolean;
+  template?: string;
+};
+
+// `files` holds the generated contents of each managed file, which is the
+// base of the three way merge on the next upgrade.
+export type Manifest = {
+  version: string;
+  options: ManifestOptions;
+  files: Record<string, string>;
+};
+
+const manifestPath = (root: string) => path.join(root, MANIFEST_FILE);
+
+const readManifest = (root: string): Manifest => {
+  if (!fs.existsSync(manifestPath(root))) {
+    throw new Error(
+      `Could not find ${MANIFEST_FILE} in ${root}. Run upgrade from the root of a package generated by this version or later.`
+    );
+  }
+  return JSON.parse(fs.readFileSync(manifestPath(root)).toString());
+};
+
+export default readManifest;
@@ -0,0 +1,53 @@
+import { sync } from "cross-spawn";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export type MergeResult = { contents: string; conflicts: number };
+
+// Three way merge of a file's local and template changes since the version it
+// was generated from, using git's line based merge. Conflicting hunks are
+// wrapped in the usual conflict markers.
+const mergeFile = ({
+  ours,
+  base,
+  theirs,
+}: {
+  ours: string;
+  base: string;
+  theirs: string;
+}): MergeResult => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "create-vargas-"));
+  const files = Object.entries({ ours, base, theirs }).map(([name, text]) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  });
+  try {
+    const { status, stdout, error } = sync(
+      "git",
+      [
+        "merge-file",
+        "-p",
+        "-L",
+        "local",
+        "-L",
+        "base",
+        "-L",
+        "template",
+      ].concat(files),
+      { encoding: "utf8" }
+    );
+    // git merge-file exits with the number of conflicts, or negative on error.
+    if (error || status === null || status < 0 || status > 127) {
+      throw new Error(
+        `git merge-file failed${error ? `: ${error.message}` : ""}`
+      );
+    }
+    return { contents: stdout, conflicts: status };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+export default mergeFile;
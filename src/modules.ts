@@ -0,0 +1,66 @@
+export const MODULE_FORMATS = ["cjs", "esm", "dual"];
+
+export const validateModuleFormat = (format: string) => {
+  if (!MODULE_FORMATS.includes(format)) {
+    throw new Error(
+      `Unsupported module format ${format}. Use one of ${MODULE_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+};
+
+// Dual packages build ESM into dist/esm and CommonJS into dist/cjs, each with
+// its own declarations so that TypeScript resolves types in the same format
+// as the code it is importing.
+const getExportsMap = (format: string) =>
+  format === "dual"
+    ? {
+        ".": {
+          import: {
+            types: "./dist/esm/index.d.ts",
+            default: "./dist/esm/index.js",
+          },
+          require: {
+            types: "./dist/cjs/index.d.ts",
+            default: "./dist/cjs/index.js",
+          },
+        },
+      }
+    : {
+        ".": {
+          types: "./dist/index.d.ts",
+          [format === "esm" ? "import" : "require"]: "./dist/index.js",
+          // Loaded the other way, Node still gets the one build there is.
+          default: "./dist/index.js",
+        },
+      };
+
+// Files a build of the format has to produce, which are the ones its exports
+// map points at.
+export const getBuildOutputs = (format: string): string[] => {
+  const paths = (value: unknown): string[] =>
+    typeof value === "string"
+      ? [value.replace(/^\.\//, "")]
+      : Object.values(value as Record<string, unknown>).flatMap(paths);
+  return paths(getExportsMap(format)).filter(
+    (p, i, all) => all.indexOf(p) === i
+  );
+};
+
+// CLIs only run from the ES modules build of dual packages, as the CommonJS
+// one cannot use import.meta, which meow needs.
+export const getBinPath = (format: string) =>
+  format === "dual" ? "dist/esm/cli.js" : "dist/cli.js";
+
+// Values the package.json, tsconfig and jest templates use for the format.
+// The exports map is serialized here and pretty printed again when rendered.
+const getModuleView = (format: string) => ({
+  moduleFormat: format,
+  isCjs: format === "cjs",
+  isEsm: format === "esm",
+  isDual: format === "dual",
+  exportsMap: JSON.stringify(getExportsMap(format)),
+});
+
+export default getModuleView;
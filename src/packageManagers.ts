@@ -0,0 +1,114 @@
+import { spawnSync } from "child_process";
+
+export const PACKAGE_MANAGERS = ["npm", "pnpm", "yarn"];
+
+export const validatePackageManager = (packageManager: string) => {
+  if (!PACKAGE_MANAGERS.includes(packageManager)) {
+    throw new Error(
+      `Unsupported package manager ${packageManager}. Use one of ${PACKAGE_MANAGERS.join(
+        ", "
+      )}`
+    );
+  }
+};
+
+type Commands = {
+  // Adds packages to the dependencies, or the dev dependencies.
+  add: string[];
+  addDev: string[];
+  // Installs exactly what the lockfile holds, in CI.
+  ci: string;
+  // Keeps the packages in a directory of the project that GitLab can cache.
+  ciCacheArgs: string;
+  ciCacheDir: string;
+  version: string[];
+};
+
+// yarn is Yarn 1, whose commands and flags later versions changed.
+const commands: Record<string, Commands> = {
+  npm: {
+    add: ["install"],
+    addDev: ["install", "--save-dev"],
+    ci: "npm ci",
+    ciCacheArgs: "--cache .npm --prefer-offline",
+    ciCacheDir: ".npm",
+    version: ["version", "patch"],
+  },
+  pnpm: {
+    add: ["add"],
+    addDev: ["add", "--save-dev"],
+    ci: "pnpm install --frozen-lockfile",
+    ciCacheArgs: "--store-dir .pnpm-store",
+    ciCacheDir: ".pnpm-store",
+    version: ["version", "patch"],
+  },
+  yarn: {
+    add: ["add"],
+    addDev: ["add", "--dev"],
+    ci: "yarn install --frozen-lockfile",
+    ciCacheArgs: "--cache-folder .yarn-cache",
+    ciCacheDir: ".yarn-cache",
+    version: ["version", "--patch"],
+  },
+};
+
+export const getPackageManagerCommands = (packageManager: string) =>
+  commands[packageManager];
+
+// Installs only from the packages already in the local cache.
+export const OFFLINE_ARGS = ["--offline"];
+
+// `npx`, `pnpm dlx` and `yarn create` all name themselves in this variable,
+// e.g. `pnpm/9.1.0 npm/? node/v20.12.2 linux x64`.
+const parseUserAgent = (userAgent = "") => {
+  const [, name = "", version = ""] = /^(\w+)\/(\S+)/.exec(userAgent) || [];
+  return { name, version };
+};
+
+export const detectPackageManager = (
+  userAgent = process.env.npm_config_user_agent
+) => {
+  const { name } = parseUserAgent(userAgent);
+  return PACKAGE_MANAGERS.includes(name) ? name : "npm";
+};
+
+// The exact version, which CI installs. Only needed for pnpm and yarn, as
+// every Node install comes with npm.
+export const getPackageManagerVersion = (
+  packageManager: string,
+  userAgent = process.env.npm_config_user_agent
+) => {
+  const agent = parseUserAgent(userAgent);
+  const version =
+    agent.name === packageManager
+      ? agent.version
+      : spawnSync(packageManager, ["--version"], {
+          encoding: "utf8",
+        }).stdout?.trim();
+  if (!version) {
+    throw new Error(
+      `Could not find ${packageManager}. Install it or pass --package-manager npm`
+    );
+  }
+  if (packageManager === "yarn" && !version.startsWith("1.")) {
+    throw new Error(
+      `Unsupported yarn version ${version}. Use Yarn 1 or another package manager`
+    );
+  }
+  return version;
+};
+
+// Values the package.json and CI templates use for the package manager.
+const getPackageManagerView = (packageManager: string, version = "") => ({
+  packageManager,
+  isNpm: packageManager === "npm",
+  isPnpm: packageManager === "pnpm",
+  isYarn: packageManager === "yarn",
+  packageManagerVersion: version,
+  runScript: `${packageManager} run`,
+  ciInstall: commands[packageManager].ci,
+  ciCacheArgs: commands[packageManager].ciCacheArgs,
+  ciCacheDir: commands[packageManager].ciCacheDir,
+});
+
+export default getPackageManagerView;
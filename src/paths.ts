@@ -0,0 +1,14 @@
+import path from "path";
+
+// The bundled CLI lives in dist/ and these sources in src/, so either way the
+// package root is one level up.
+export const packageRoot = path.resolve(__dirname, "..");
+
+export const templatePath = (...segments: string[]) =>
+  path.join(packageRoot, "template", ...segments);
+
+export const templatesPath = (...segments: string[]) =>
+  path.join(packageRoot, "templates", ...segments);
+
+export const npmTemplatePath = (...segments: string[]) =>
+  templatesPath("npm", ...segments);
@@ -0,0 +1,106 @@
+import chalk from "chalk";
+import { createRequire } from "module";
+import path from "path";
+import { Config } from "./config";
+import { Task } from "./tasks";
+
+// What plugin tasks get to know about the project being created.
+export type PluginContext = {
+  projectName: string;
+  root: string;
+  isReact: boolean;
+  isCli: boolean;
+  config: Config;
+  // Secrets read or generated so far, like NPM_TOKEN or MYSQL_PASSWORD.
+  getSecret: (name: string) => string | undefined;
+};
+
+// Runs right before or right after the built-in task with the given title.
+export type PluginTask = Omit<Task, "task" | "skip" | "undo"> & {
+  before?: string;
+  after?: string;
+  task: (context: PluginContext) => void | Promise<unknown>;
+  skip?: (context: PluginContext) => boolean;
+  undo?: (context: PluginContext) => void | Promise<unknown>;
+};
+
+type LoadedTask = PluginTask & { plugin: string };
+
+// Plugins are a comma separated list of modules, each exporting a task or an
+// array of them. They are resolved from cwd, like its own requires would be.
+export const loadPlugins = (
+  plugins: string,
+  cwd = process.cwd()
+): LoadedTask[] => {
+  const load = createRequire(path.join(cwd, "package.json"));
+  const names = plugins
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return names.flatMap((plugin) => {
+    const exported = (() => {
+      try {
+        const mod = load(plugin);
+        return mod.default || mod;
+      } catch (e) {
+        // Leaves out the require stack that follows the reason.
+        const [reason] = `${e.message}`.split("\n");
+        throw new Error(`Could not load plugin ${plugin}: ${reason}`);
+      }
+    })();
+    return ([] as PluginTask[]).concat(exported).map((t) => {
+      if (!t?.title || typeof t.task !== "function") {
+        throw new Error(`Plugin ${plugin} exports a task without a title`);
+      }
+      if (!t.before === !t.after) {
+        throw new Error(
+          `Plugin task ${t.title} needs either a before or an after task`
+        );
+      }
+      return { ...t, plugin };
+    });
+  });
+};
+
+// A task inserted before another is also waited for by it, and one inserted
+// after another is waited for by everything that waited for that one.
+export const applyPlugins = (
+  tasks: Task[],
+  pluginTasks: LoadedTask[],
+  context: PluginContext,
+  { dryRun = false }: { dryRun?: boolean } = {}
+) =>
+  pluginTasks.reduce((all, pluginTask) => {
+    const { title, before, after = "", plugin } = pluginTask;
+    const anchor = before || after;
+    const index = all.findIndex((t) => t.title === anchor);
+    if (index < 0) {
+      throw new Error(
+        `Plugin task ${title} from ${plugin} is anchored to unknown task ${anchor}`
+      );
+    }
+    if (all.some((t) => t.title === title)) {
+      throw new Error(`Plugin task ${title} from ${plugin} is already a task`);
+    }
+    const task: Task = {
+      title,
+      dependsOn: [
+        ...(pluginTask.dependsOn || []),
+        ...(before ? all[index].dependsOn || [] : [after]),
+      ],
+      outputs: pluginTask.outputs,
+      skip: pluginTask.skip && (() => !!pluginTask.skip?.(context)),
+      undo: pluginTask.undo && (() => pluginTask.undo?.(context)),
+      task: () =>
+        dryRun
+          ? console.log(chalk.grey(`  Run ${title} from ${plugin}`))
+          : pluginTask.task(context),
+    };
+    const rewired = all.map((t) =>
+      (before ? t.title === before : t.dependsOn?.includes(after))
+        ? { ...t, dependsOn: [...(t.dependsOn || []), title] }
+        : t
+    );
+    const at = before ? index : index + 1;
+    return [...rewired.slice(0, at), task, ...rewired.slice(at)];
+  }, tasks);
@@ -0,0 +1,44 @@
+import validateNpmName from "validate-npm-package-name";
+import http from "./http";
+
+// Only asks for the abbreviated metadata, as the full document of a popular
+// package runs into megabytes.
+const opts = { headers: { Accept: "application/vnd.npm.install-v1+json" } };
+
+// Scoped names keep their @ but escape the slash.
+const getPackageUrl = (registryUrl: string, name: string) =>
+  `${registryUrl}/${name.replace("/", "%2f")}`;
+
+export const planIsPublished = (registryUrl: string, name: string) =>
+  `GET ${getPackageUrl(registryUrl, name)}`;
+
+export const isPublished = (registryUrl: string, name: string) =>
+  http
+    .get(getPackageUrl(registryUrl, name), opts)
+    .then(() => true)
+    .catch((e) => (e.status === 404 ? false : Promise.reject(e)));
+
+// Names like the taken one that are still free, the one under the user's own
+// scope first.
+const getNameSuggestions = (
+  registryUrl: string,
+  name: string,
+  { scope, owner }: { scope: string; owner: string }
+) => {
+  const [, nameScope = "", bare = name] =
+    /^(?:@([^/]+)\/)?(.+)$/.exec(name) || [];
+  const candidates = (
+    nameScope
+      ? [`@${nameScope}/${bare}-js`, `@${nameScope}/${bare}-ts`]
+      : [
+          scope && `@${scope.replace(/^@/, "")}/${bare}`,
+          `${bare}-js`,
+          owner && `${owner}-${bare}`,
+        ]
+  ).filter((c) => c && validateNpmName(c).validForNewPackages);
+  return Promise.all(
+    candidates.map((c) => isPublished(registryUrl, c).catch(() => true))
+  ).then((taken) => candidates.filter((_, i) => !taken[i]));
+};
+
+export default getNameSuggestions;
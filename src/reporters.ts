@@ -0,0 +1,89 @@
+import chalk from "chalk";
+
+export const REPORTERS = ["pretty", "json"];
+
+export const validateReporter = (reporter: string) => {
+  if (!REPORTERS.includes(reporter)) {
+    throw new Error(
+      `Unsupported reporter ${reporter}. Use one of ${REPORTERS.join(", ")}`
+    );
+  }
+};
+
+export type SkipReason = "skipped" | "completed previously" | "blocked";
+
+export type Reporter = {
+  start: (task: string) => void;
+  // `blocker` is the failed dependency of blocked tasks.
+  skip: (task: string, reason: SkipReason, blocker?: string) => void;
+  success: (task: string, duration: number) => void;
+  failure: (task: string, error: string, duration: number) => void;
+  // Something a task created that outlives the run, like a repo's URL.
+  artifact: (name: string, value: string) => void;
+  // `error` is why undoing a task during a rollback failed.
+  undo: (task: string, error?: string) => void;
+  end: (failures: { task: string; error?: string }[]) => void;
+};
+
+type ReporterOptions = { dryRun?: boolean };
+
+const createPrettyReporter = ({
+  dryRun = false,
+}: ReporterOptions): Reporter => ({
+  start: (task) =>
+    console.log(chalk.blue(dryRun ? "Planning" : "Running", task, "...")),
+  skip: (task, reason, blocker) =>
+    console.log(
+      reason === "blocked"
+        ? chalk.grey("Skipped task", task, "due to failure from", blocker)
+        : reason === "completed previously"
+        ? chalk.blueBright("Skipped", task, "as it completed previously")
+        : chalk.blueBright("Skipped", task)
+    ),
+  success: (task) => console.log(chalk.greenBright("Successfully Ran", task)),
+  failure: (task) => console.log(chalk.redBright("Failed to run", task)),
+  artifact: (name, value) => console.log(chalk.grey(`  ${name}: ${value}`)),
+  undo: (task, error) =>
+    console.log(
+      error
+        ? chalk.redBright("Failed to undo", task)
+        : chalk.yellow("Undid", task)
+    ),
+  end: () => undefined,
+});
+
+// One event per line on stdout. Everything else the run prints goes to stderr
+// in this mode, so stdout can be parsed line by line.
+const createJsonReporter = ({ dryRun = false }: ReporterOptions): Reporter => {
+  const emit = (event: string, data: Record<string, unknown>) =>
+    process.stdout.write(
+      `${JSON.stringify({
+        event,
+        time: new Date().toJSON(),
+        ...(dryRun ? { dryRun } : {}),
+        ...data,
+      })}\n`
+    );
+  return {
+    start: (task) => emit("start", { task }),
+    skip: (task, reason, blocker) =>
+      emit("skip", { task, reason, ...(blocker ? { blocker } : {}) }),
+    success: (task, duration) => emit("success", { task, duration }),
+    failure: (task, error, duration) =>
+      emit("failure", { task, error, duration }),
+    artifact: (name, value) => emit("artifact", { name, value }),
+    undo: (task, error) =>
+      emit("undo", { task, success: !error, ...(error ? { error } : {}) }),
+    end: (failures) => emit("end", { success: !failures.length, failures }),
+  };
+};
+
+const reporters: Record<string, (options: ReporterOptions) => Reporter> = {
+  pretty: createPrettyReporter,
+  json: createJsonReporter,
+};
+
+const createReporter = (reporter: string, options: ReporterOptions = {}) =>
+  reporters[reporter](options);
+
+export default createReporter;
@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+import { CONFIG_KEY, readJson } from "./config";
+
+export const SECRETS_COMMANDS = ["sync", "rotate"];
+
+export const ENV_FILE = ".env";
+
+// What new packages store, synced when a project declares nothing else.
+export const DEFAULT_SECRETS = ["NPM_TOKEN"];
+
+export const validateSecretsCommand = (command: string) => {
+  if (!SECRETS_COMMANDS.includes(command)) {
+    throw new Error(
+      `Unsupported secrets command ${command}. Use one of ${SECRETS_COMMANDS.join(
+        ", "
+      )}`
+    );
+  }
+};
+
+const unquote = (value: string) =>
+  /^"[^]*"$/.test(value)
+    ? value.slice(1, -1).replace(/\\n/g, "\n").replace(/\\"/g, '"')
+    : /^'[^]*'$/.test(value)
+    ? value.slice(1, -1)
+    : value.replace(/\s+#.*$/, "");
+
+// Reads the KEY=value lines of a .env file, skipping blank lines and comments.
+export const parseEnvFile = (contents: string): Record<string, string> =>
+  Object.fromEntries(
+    contents
+      .split(/\r?\n/)
+      .map((line) => /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line))
+      .filter((m): m is RegExpExecArray => !!m)
+      .map(([, key, value]) => [key, unquote(value)])
+  );
+
+export type Secrets = {
+  // Secrets the project's CI needs.
+  names: string[];
+  // Path of the env file values are read from, whether it exists or not.
+  envFile: string;
+  // Empty when the secret has no value.
+  getValue: (name: string) => string;
+};
+
+// Names are declared under the `create-vargas` key of the package.json as
+// `secrets`, and default to the keys of the env file. Variables set in the
+// environment take precedence over the file, like with dotenv.
+const loadSecrets = ({
+  cwd = process.cwd(),
+  envFile,
+}: { cwd?: string; envFile?: string } = {}): Secrets => {
+  const file = path.resolve(cwd, envFile || ENV_FILE);
+  if (envFile && !fs.existsSync(file)) {
+    throw new Error(`Could not find env file ${file}`);
+  }
+  const env = fs.existsSync(file)
+    ? parseEnvFile(fs.readFileSync(file).toString())
+    : {};
+  const declared = readJson(path.join(cwd, "package.json"))[CONFIG_KEY]
+    ?.secrets;
+  if (
+    declared !== undefined &&
+    !(
+      Array.isArray(declared) &&
+      declared.every((s: unknown) => typeof s === "string")
+    )
+  ) {
+    throw new Error(
+      `"${CONFIG_KEY}".secrets in package.json must be a list of secret names`
+    );
+  }
+  return {
+    names:
+      declared ||
+      (Object.keys(env).length ? Object.keys(env) : DEFAULT_SECRETS),
+    envFile: file,
+    getValue: (name) => process.env[name] || env[name] || "",
+  };
+};
+
+export default loadSecrets;
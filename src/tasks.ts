@@ -0,0 +1,233 @@
+import chalk from "chalk";
+import {
+  Checkpoint,
+  CHECKPOINT_FILE,
+  clearCheckpoint,
+  completeTask,
+  hasCheckpoint,
+  readCheckpoint,
+  restoreOutputs,
+  undoTask,
+} from "./checkpoint";
+import createReporter, { Reporter } from "./reporters";
+
+export type Task = {
+  title: string;
+  task: () => void | Promise<unknown>;
+  skip?: () => boolean;
+  // Titles of the tasks that must succeed before this one starts.
+  dependsOn?: string[];
+  // Env variables this task sets, persisted so a resumed run can reuse them.
+  outputs?: string[];
+  // Reverts what the task did, when a later task fails and the run rolls back.
+  undo?: () => void | Promise<unknown>;
+};
+
+export type TaskResult = {
+  success: boolean;
+  message?: string;
+  skipped?: boolean;
+};
+
+export type RunOptions = { dryRun?: boolean; reporter?: Reporter };
+
+export const runTask = (
+  task: Task,
+  {
+    dryRun = false,
+    reporter = createReporter("pretty", { dryRun }),
+  }: RunOptions = {}
+): Promise<TaskResult> => {
+  reporter.start(task.title);
+  if (task.skip?.()) {
+    reporter.skip(task.title, "skipped");
+    return Promise.resolve({ success: true, skipped: true });
+  }
+  const start = Date.now();
+  return Promise.resolve(task.task)
+    .then((t) => t())
+    .then(() => {
+      reporter.success(task.title, Date.now() - start);
+      return { success: true as const };
+    })
+    .catch((e) => {
+      const message = e?.message || `${e}`;
+      reporter.failure(task.title, message, Date.now() - start);
+      return { success: false as const, message };
+    });
+};
+
+const validateGraph = (tasks: Task[]) => {
+  const byTitle = Object.fromEntries(tasks.map((t) => [t.title, t]));
+  tasks.forEach((t) => {
+    const missing = (t.dependsOn || []).find((d) => !byTitle[d]);
+    if (missing) {
+      throw new Error(`Task ${t.title} depends on unknown task ${missing}`);
+    }
+  });
+  const visited = new Set<string>();
+  const visit = (t: Task, path: string[]) => {
+    if (path.includes(t.title)) {
+      throw new Error(
+        `Tasks have a circular dependency: ${[...path, t.title].join(" -> ")}`
+      );
+    }
+    if (visited.has(t.title)) return;
+    (t.dependsOn || []).forEach((d) => visit(byTitle[d], [...path, t.title]));
+    visited.add(t.title);
+  };
+  tasks.forEach((t) => visit(t, []));
+  return byTitle;
+};
+
+// Undoes the tasks that ran, the last one to finish first. Failed undos do not
+// stop the others, and are returned to be reported.
+const rollbackTasks = async (
+  byTitle: Record<string, Task>,
+  {
+    root,
+    checkpoint,
+    checkpointFile,
+    reporter,
+  }: {
+    root: string;
+    checkpoint: Checkpoint;
+    checkpointFile: string;
+    reporter: Reporter;
+  }
+) => {
+  const titles = [...(checkpoint.undoable || [])].reverse();
+  if (titles.length) {
+    console.log(chalk.yellow("Rolling back", titles.join(", "), "..."));
+  }
+  const failures: { title: string; message: string }[] = [];
+  for (const title of titles) {
+    const undo = byTitle[title]?.undo;
+    if (!undo) continue;
+    const message = await Promise.resolve()
+      .then(undo)
+      .then(
+        () => "",
+        (e) => e?.message || `${e}`
+      );
+    reporter.undo(title, message || undefined);
+    if (message) failures.push({ title, message });
+    else undoTask(root, checkpoint, title, checkpointFile);
+  }
+  return failures;
+};
+
+// Starts every task as soon as all of its dependencies succeeded, so that
+// independent tasks run concurrently. A failure only skips the tasks that
+// transitively depend on it. Dry runs go one task at a time in list order to
+// keep the printed plan readable. With rollback, a failed run undoes what the
+// tasks that completed did.
+const runTasks = async (
+  tasks: Task[],
+  {
+    root,
+    checkpointFile = CHECKPOINT_FILE,
+    resume = false,
+    rollback = false,
+    dryRun = false,
+    reporter = createReporter("pretty", { dryRun }),
+  }: {
+    root: string;
+    // Name of the checkpoint file in root.
+    checkpointFile?: string;
+    resume?: boolean;
+    rollback?: boolean;
+  } & RunOptions
+) => {
+  const byTitle = validateGraph(tasks);
+  if (!resume && hasCheckpoint(root, checkpointFile)) {
+    console.log(
+      chalk.yellow(
+        "Found an incomplete run in",
+        root,
+        "starting over. Pass --resume to continue it instead."
+      )
+    );
+  }
+  const checkpoint = resume
+    ? readCheckpoint(root, checkpointFile)
+    : { completed: [], outputs: {} };
+  restoreOutputs(checkpoint);
+
+  const failures: { title: string; message?: string }[] = [];
+  const results: Record<string, Promise<boolean>> = {};
+  const start = (task: Task): Promise<boolean> => {
+    if (!results[task.title]) {
+      const deps = task.dependsOn || [];
+      results[task.title] = Promise.all(
+        deps.map((d) => start(byTitle[d]))
+      ).then(async (depResults) => {
+        const blocker = deps.find((_, i) => !depResults[i]);
+        if (blocker) {
+          reporter.skip(task.title, "blocked", blocker);
+          return false;
+        }
+        if (checkpoint.completed.includes(task.title)) {
+          reporter.skip(task.title, "completed previously");
+          return true;
+        }
+        const result = await runTask(task, { dryRun, reporter });
+        if (!result.success) {
+          failures.push({ title: task.title, message: result.message });
+          return false;
+        }
+        if (!dryRun) {
+          completeTask(
+            root,
+            checkpoint,
+            { ...task, undoable: !!task.undo && !result.skipped },
+            checkpointFile
+          );
+        }
+        return true;
+      });
+    }
+    return results[task.title];
+  };
+
+  if (dryRun) {
+    for (const task of tasks) await start(task);
+  } else {
+    await Promise.all(tasks.map(start));
+  }
+
+  const undoFailures =
+    failures.length && rollback && !dryRun
+      ? await rollbackTasks(byTitle, {
+          root,
+          checkpoint,
+          checkpointFile,
+          reporter,
+        })
+      : [];
+  reporter.end(failures.map((f) => ({ task: f.title, error: f.message })));
+  if (failures.length) {
+    if (hasCheckpoint(root, checkpointFile)) {
+      console.log(
+        chalk.grey(
+          "Run again with --resume to continue from",
+          failures.map((f) => f.title).join(", ")
+        )
+      );
+    }
+    return Promise.reject(
+      [
+        ...failures.map((f) => f.message),
+        ...(undoFailures.length
+          ? [
+              "Could not undo:",
+              ...undoFailures.map((f) => `- ${f.title}: ${f.message}`),
+            ]
+          : []),
+      ].join("\n")
+    );
+  }
+  if (!dryRun) clearCheckpoint(root, checkpointFile);
+};
+
+export default runTasks;
@@ -0,0 +1,87 @@
+import fs from "fs";
+import Mustache from "mustache";
+import os from "os";
+import path from "path";
+import { npmTemplatePath } from "./paths";
+
+export type TemplateView = Record<string, unknown>;
+
+const listFiles = (dir: string, prefix = ""): string[] =>
+  fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir, { withFileTypes: true })
+        .flatMap((f) =>
+          f.isDirectory()
+            ? listFiles(path.join(dir, f.name), `${prefix}${f.name}/`)
+            : [`${prefix}${f.name}`]
+        )
+    : [];
+
+// npm does not ship .gitignore files inside published packages, so templates
+// keep them without the leading dot.
+const renameSegments = (file: string, from: string, to: string) =>
+  file
+    .split("/")
+    .map((p) => (p === from ? to : p))
+    .join("/");
+
+export const toOutputPath = (file: string) =>
+  renameSegments(file, "gitignore", ".gitignore");
+
+const toTemplateName = (file: string) =>
+  renameSegments(file, ".gitignore", "gitignore");
+
+export const renderString = (template: string, view: TemplateView) =>
+  Mustache.render(
+    template,
+    view,
+    {},
+    {
+      tags: ["{{{", "}}}"],
+      escape: (s) => s,
+    }
+  );
+
+// Renders files from the first of the template directories that has them,
+// preferring a file of the same relative path in the user's overlay directory
+// when one was passed with --template.
+const createRenderer = ({
+  overlay,
+  templateDirs = [npmTemplatePath()],
+  view,
+}: {
+  overlay?: string;
+  templateDirs?: string[];
+  view: TemplateView;
+}) => {
+  const resolve = (file: string) => {
+    const candidates = [
+      ...(overlay
+        ? [file, toOutputPath(file)].map((f) => path.join(overlay, f))
+        : []),
+      ...templateDirs.map((dir) => path.join(dir, file)),
+    ];
+    const found = candidates.find((f) => fs.existsSync(f));
+    if (!found) throw new Error(`Could not find a template for ${file}`);
+    return found;
+  };
+  const render = (file: string) =>
+    renderString(fs.readFileSync(resolve(file)).toString(), view);
+  return {
+    render,
+    renderJson: (file: string) => JSON.parse(render(file)),
+    stringifyJson: (json: unknown) => JSON.stringify(json, null, 2) + os.EOL,
+    // Files that only exist in the overlay, which no built in task writes.
+    extraFiles: () =>
+      overlay
+        ? listFiles(overlay).filter(
+            (f) =>
+              !templateDirs.some((dir) =>
+                fs.existsSync(path.join(dir, toTemplateName(f)))
+              )
+          )
+        : [],
+  };
+};
+
+export default createRenderer;
@@ -0,0 +1,80 @@
+export const TEST_RUNNERS = ["jest", "vitest", "node"];
+
+export const validateTestRunner = (runner: string) => {
+  if (!TEST_RUNNERS.includes(runner)) {
+    throw new Error(
+      `Unsupported test runner ${runner}. Use one of ${TEST_RUNNERS.join(", ")}`
+    );
+  }
+};
+
+const dependencies: Record<string, string[]> = {
+  jest: ["@types/jest", "jest", "ts-jest"],
+  vitest: ["vitest"],
+  // node:test runs the TypeScript tests through tsx's loader.
+  node: ["@types/node", "tsx"],
+};
+
+// Everything but node:test renders React with jsdom, while node:test only
+// gets a DOM from global-jsdom and asserts with node:assert instead of the
+// jest-dom matchers.
+const reactDependencies: Record<string, string[]> = {
+  jest: [
+    "@testing-library/jest-dom",
+    "@testing-library/react",
+    "@testing-library/user-event",
+    "jest-environment-jsdom",
+  ],
+  vitest: [
+    "@testing-library/jest-dom",
+    "@testing-library/react",
+    "@testing-library/user-event",
+    "jsdom",
+  ],
+  node: ["@testing-library/react", "global-jsdom", "jsdom"],
+};
+
+export const getTestRunnerDependencies = (runner: string) =>
+  dependencies[runner];
+
+export const getReactTestDependencies = (runner: string) =>
+  reactDependencies[runner];
+
+// Config written to the package root for the runner, if it has one.
+export const getTestRunnerConfigFile = (runner: string) =>
+  runner === "jest"
+    ? "jestconfig.json"
+    : runner === "vitest"
+    ? "vitest.config.mts"
+    : "";
+
+const getTestScript = (runner: string, isReact = false) =>
+  runner === "jest"
+    ? "jest --config jestconfig.json"
+    : runner === "vitest"
+    ? "vitest run"
+    : [
+        "node --import tsx",
+        ...(isReact ? ["--import global-jsdom/register"] : []),
+        `--test tests/*.test.ts${isReact ? "x" : ""}`,
+      ].join(" ");
+
+// Packages whose types the tsconfig loads globally for the runner, as
+// TypeScript 6 no longer loads every @types package by default.
+const types: Record<string, string[]> = {
+  jest: ["jest"],
+  node: ["node"],
+};
+
+export const getTestRunnerTypes = (runner: string) => types[runner] || [];
+
+// Values the package.json and test templates use for the runner.
+const getTestRunnerView = (runner: string, isReact = false) => ({
+  testRunner: runner,
+  isJest: runner === "jest",
+  isVitest: runner === "vitest",
+  isNodeTest: runner === "node",
+  testScript: JSON.stringify(getTestScript(runner, isReact)),
+});
+
+export default getTestRunnerView;
@@ -0,0 +1,152 @@
+import chalk from "chalk";
+import readline from "readline";
+import validateNpmName from "validate-npm-package-name";
+import { LICENSES } from "./licenses";
+import { MODULE_FORMATS } from "./modules";
+
+// Flags each kind of project is created with.
+const KINDS: Record<string, string[]> = {
+  library: [],
+  React: ["--react"],
+  CLI: ["--cli"],
+  app: ["--app"],
+};
+
+const validateName = (name: string) => {
+  if (!name) return "Enter a name";
+  const {
+    validForNewPackages,
+    errors = [],
+    warnings = [],
+  } = validateNpmName(name);
+  return validForNewPackages ? "" : [...errors, ...warnings].join(", ");
+};
+
+const formatCommand = (argv: string[]) =>
+  ["create-vargas-npm", ...argv]
+    .map((a) => (/\s/.test(a) ? JSON.stringify(a) : a))
+    .join(" ");
+
+// Asks for whatever the command line left out and resolves to the arguments
+// to create the project with, or to nothing when the user backs out.
+// `argv` holds the flags that were passed, which are kept as they are.
+const runWizard = ({
+  argv,
+  license: defaultLicense,
+  hostName,
+  canCreateRepo,
+}: {
+  argv: string[];
+  license: string;
+  hostName: string;
+  canCreateRepo: boolean;
+}): Promise<string[] | undefined> => {
+  const passed = (...flags: string[]) =>
+    argv.some((a) => flags.some((f) => a === f || a.startsWith(`${f}=`)));
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const ask = (question: string) =>
+    new Promise<string>((resolve) =>
+      rl.question(question, (a) => resolve(a.trim()))
+    );
+  // Asks again until the answer is valid, where validate returns the error.
+  const askValid = (
+    question: string,
+    validate: (answer: string) => string
+  ): Promise<string> =>
+    ask(question).then((answer) => {
+      const error = validate(answer);
+      if (!error) return answer;
+      console.log(chalk.red(error));
+      return askValid(question, validate);
+    });
+  const choose = (question: string, choices: string[], fallback: string) =>
+    askValid(`${question} (${choices.join(", ")}) [${fallback}]: `, (a) =>
+      !a || choices.some((c) => c.toLowerCase() === a.toLowerCase())
+        ? ""
+        : `Choose one of ${choices.join(", ")}`
+    ).then(
+      (a) =>
+        choices.find((c) => c.toLowerCase() === a.toLowerCase()) || fallback
+    );
+  const confirm = (question: string) =>
+    ask(`${question} (Y/n) `).then((a) => !/^n/i.test(a));
+
+  const answers: { label: string; value: string; flags: string[] }[] = [];
+  const answer = (label: string, value: string, flags: string[] = []) =>
+    answers.push({ label, value, flags });
+  // Apps have a fixed module format and create their repo themselves.
+  const isApp = () =>
+    passed("--app") ||
+    answers.some((a) => a.label === "Kind" && a.value === "app");
+
+  return askValid("Project name: ", validateName)
+    .then((name) => {
+      answer("Name", name, [name]);
+      return passed("--react", "--cli", "--app")
+        ? undefined
+        : choose("Kind of project", Object.keys(KINDS), "library");
+    })
+    .then((kind) => {
+      if (kind) answer("Kind", kind, KINDS[kind]);
+      return passed("--license")
+        ? undefined
+        : choose("License", LICENSES, defaultLicense);
+    })
+    .then((license) => {
+      if (license) {
+        answer(
+          "License",
+          license,
+          license === defaultLicense ? [] : ["--license", license]
+        );
+      }
+      return passed("--module") || isApp()
+        ? undefined
+        : choose("Module format", MODULE_FORMATS, "cjs");
+    })
+    .then((format) => {
+      if (format) {
+        answer(
+          "Module format",
+          format,
+          format === "cjs" ? [] : ["--module", format]
+        );
+      }
+      if (passed("--no-repo") || isApp()) {
+        return undefined;
+      }
+      if (!canCreateRepo) {
+        console.log(
+          chalk.yellow(
+            `No ${hostName} token is set, so no repo will be created.`
+          )
+        );
+        return undefined;
+      }
+      return confirm(`Create a repo on ${hostName}?`);
+    })
+    .then((createRepo) => {
+      if (createRepo !== undefined) {
+        answer(
+          "Repo",
+          createRepo ? `create on ${hostName}` : "skip",
+          createRepo ? [] : ["--no-repo"]
+        );
+      }
+      const args = [...answers.flatMap((a) => a.flags), ...argv];
+      console.log(chalk.blue("\nAbout to create:"));
+      answers.forEach(({ label, value }) =>
+        console.log(`  ${`${label}:`.padEnd(15)}${value}`)
+      );
+      console.log(`  ${"Command:".padEnd(15)}${formatCommand(args)}`);
+      return confirm("Create this project?").then((ok) =>
+        ok ? args : undefined
+      );
+    })
+    .finally(() => rl.close());
+};
+
+export default runWizard;
@@ -1,7 +1,7 @@
 terraform {
   backend "remote" {
     hostname = "app.terraform.io"
-    organization = "VargasArts"
+    organization = "{{{terraformOrganization}}}"
     workspaces {
       prefix = "{{{projectName}}}"
     }
@@ -61,7 +61,7 @@ provider "aws" {
 }
 
 provider "github" {
-  owner = "dvargas92495"
+  owner = "{{{owner}}}"
   token = var.github_token
 }
 
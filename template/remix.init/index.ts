@@ -1,47 +1,151 @@
 #!/usr/bin/env node
 import AWS from "aws-sdk";
-import axios from "axios";
 import chalk from "chalk";
-import spawn, { sync } from "cross-spawn";
+import crossSpawn from "cross-spawn";
 import fs from "fs";
 import Mustache from "mustache";
 import mysql from "mysql";
 import path from "path";
 import randomstring from "randomstring";
 import readline from "readline";
+import { Writable } from "stream";
+import { CHECKPOINT_FILE } from "../../src/checkpoint";
+import loadConfig, { Config } from "../../src/config";
+import {
+  getCreateRepoUrl,
+  getGithubApiUrl,
+  GITHUB_URL,
+} from "../../src/github";
+import http, { handleHttpError } from "../../src/http";
+import renderLicense from "../../src/licenses";
+import { applyPlugins, loadPlugins } from "../../src/plugins";
+import createReporter, { Reporter } from "../../src/reporters";
+import runTasks, { Task } from "../../src/tasks";
 
-type Task = {
-  title: string;
-  task: () => void | Promise<unknown>;
-  skip?: () => boolean;
-};
-
-const main = ({ rootDirectory }: { rootDirectory: string }) => {
+const main = ({
+  rootDirectory,
+  resume = false,
+  rollback = false,
+  config: configOverrides = {},
+  reporter = createReporter("pretty"),
+  createConnection = mysql.createConnection,
+  spawner = crossSpawn,
+  commandOutput = process.stdout,
+  prompt,
+}: {
+  rootDirectory: string;
+  resume?: boolean;
+  // Undoes what the completed tasks created when one fails.
+  rollback?: boolean;
+  config?: Partial<Config>;
+  reporter?: Reporter;
+  // Stand-ins for the MySQL client and for the commands the app runs, like
+  // fakes that record what they were asked to do.
+  createConnection?: typeof mysql.createConnection;
+  spawner?: Pick<typeof crossSpawn, "spawn" | "sync">;
+  // Where the output of those commands goes, stderr when stdout carries the
+  // json reporter's events.
+  commandOutput?: Writable;
+  // Answers the questions asked on the terminal otherwise.
+  prompt?: (question: string) => Promise<string>;
+}) => {
+  const config = loadConfig(configOverrides);
+  const {
+    owner,
+    author,
+    email,
+    terraformOrganization,
+    terraformUrl,
+    awsProfile,
+    awsEndpoint,
+    rdsInstance,
+    rdsUser,
+    license,
+    copyrightHolder,
+    hostUrl,
+    onError,
+    plugins,
+  } = config;
+  const { spawn, sync } = spawner;
+  const githubUrl = hostUrl || GITHUB_URL;
+  const githubApi = getGithubApiUrl(githubUrl);
+  const terraformApi = `${terraformUrl}/api/v2`;
+  const awsOptions = awsEndpoint ? { endpoint: awsEndpoint } : {};
   AWS.config.credentials = new AWS.SharedIniFileCredentials({
-    profile: "davidvargas",
+    profile: awsProfile,
   });
-  const iam = new AWS.IAM({ apiVersion: "2010-05-08" });
-  const route53 = new AWS.Route53({ apiVersion: "2013-04-01" });
+  const iam = new AWS.IAM({ apiVersion: "2010-05-08", ...awsOptions });
+  const route53 = new AWS.Route53({ apiVersion: "2013-04-01", ...awsOptions });
   const domains = new AWS.Route53Domains({
     apiVersion: "2014-05-15",
+    ...awsOptions,
   });
-  const rds = new AWS.RDS({ apiVersion: "2014-10-31" });
+  const rds = new AWS.RDS({ apiVersion: "2014-10-31", ...awsOptions });
   const githubOpts = {
     headers: {
       Authorization: `token ${process.env.GITHUB_TOKEN}`,
     },
   };
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-  const rlp = (q: string) =>
-    new Promise<string>((resolve) => rl.question(q, resolve));
+  const tfOpts = {
+    headers: {
+      Authorization: `Bearer ${process.env.TERRAFORM_ORGANIZATION_TOKEN}`,
+      "Content-Type": "application/vnd.api+json",
+    },
+  };
+  // Prompts go to stderr, which keeps stdout free for the json reporter.
+  const rl = prompt
+    ? undefined
+    : readline.createInterface({
+        input: process.stdin,
+        output: process.stderr,
+      });
+  const rlp =
+    prompt ||
+    ((q: string) => new Promise<string>((resolve) => rl?.question(q, resolve)));
   const projectName = path.basename(rootDirectory);
   const safeProjectName = projectName.replace(/\./g, "-");
   const mysqlName = safeProjectName.replace(/-/g, "_");
   const DomainName = projectName.split(".").slice(-2).join(".");
   const isSubdomain = projectName.split(".").length > 2;
+  const sitePolicies = [
+    "arn:aws:iam::aws:policy/AWSLambda_FullAccess",
+    "arn:aws:iam::aws:policy/AmazonAPIGatewayAdministrator",
+    "arn:aws:iam::aws:policy/AmazonDynamoDBFullAccess",
+    "arn:aws:iam::aws:policy/AmazonSESFullAccess",
+  ];
+  const credentialsPath = path.resolve(`${process.env.HOME}/.aws/credentials`);
+  const getCredentialsProfile = (id = "", secret = "") =>
+    `[${safeProjectName}]\naws_access_key_id = ${id}\naws_secret_access_key = ${secret}\n`;
+
+  // Only drops the user and the database that the run created, which existing
+  // ones made it fail to. Unlike creating them, rejects when a statement
+  // fails, so that a rollback reports what is left.
+  const dropDatabase = (
+    connection: mysql.Connection,
+    { user, database }: { user: boolean; database: boolean }
+  ) => {
+    if (!user && !database) return Promise.resolve();
+    connection.connect();
+    const query = (sql: string) =>
+      new Promise((resolve, reject) =>
+        connection.query(sql, (e) => (e ? reject(e) : resolve(undefined)))
+      );
+    return Promise.resolve()
+      .then(() => user && query(`DROP USER '${mysqlName}'@'%'`))
+      .then(() => database && query(`DROP DATABASE ${mysqlName}`))
+      .finally(() => connection.end());
+  };
+
+  // Runs git in the app, failing the task when it could not start or exited
+  // with an error.
+  const runGit = (args: string[]) => {
+    process.chdir(rootDirectory);
+    const { status, error } = sync("git", args, { stdio: "ignore" });
+    if (error) throw error;
+    if (status !== 0) {
+      throw new Error(`git ${args[0]} exited with code ${status}`);
+    }
+  };
 
   const getHostedZoneIdByName = async () => {
     let finished = false;
@@ -99,9 +203,10 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
       });
 
   const checkGhStatus = (id: string): Promise<void> =>
-    axios
+    http
       .get(
-        `https://api.github.com/repos/dvargas92495/${projectName}/actions/runs/${id}`
+        `${githubApi}/repos/${owner}/${projectName}/actions/runs/${id}`,
+        githubOpts
       )
       .then((r) => {
         if (r.data.status === "queued" || r.data.status === "in_progress") {
@@ -180,12 +285,13 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
                 "Invalid Address entered in CONTACT_DETAIL stringified JSON env variable"
               );
             }
+            const [FirstName, ...lastNames] = author.split(" ");
             const Contact = {
               ContactType: "PERSON",
               CountryCode: "US",
-              Email: "dvargas92495@gmail.com",
-              FirstName: "David",
-              LastName: "Vargas",
+              Email: email,
+              FirstName,
+              LastName: lastNames.join(" "),
               AddressLine1,
               AddressLine2,
               City,
@@ -211,26 +317,39 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
                     r.OperationId
                   )
                 );
+                process.env.DOMAIN_OPERATION_ID = r.OperationId;
+                reporter.artifact("domainOperationId", r.OperationId);
                 return checkDomainStatus(r.OperationId);
               });
           });
         });
       },
+      outputs: ["DOMAIN_OPERATION_ID"],
+      // A bought domain stays bought, so the rollback reports it instead.
+      undo: () =>
+        process.env.DOMAIN_OPERATION_ID
+          ? Promise.reject(
+              new Error(`${DomainName} was bought and cannot be returned`)
+            )
+          : undefined,
     },
     {
       title: "Create RDS DB",
+      // Nothing is created for a domain that cannot be had, and nothing while
+      // Clerk's prompts wait for answers.
+      dependsOn: ["Verify site ownership", "Set up Clerk"],
       task: () =>
         rds
-          .describeDBInstances({ DBInstanceIdentifier: "vargas-arts" })
+          .describeDBInstances({ DBInstanceIdentifier: rdsInstance })
           .promise()
           .then((r) => {
             if (!r.DBInstances?.length)
-              throw new Error("Could not find main RDS instance");
+              throw new Error(`Could not find RDS instance ${rdsInstance}`);
             const { Address, Port } = r.DBInstances[0].Endpoint || {};
-            const connection = mysql.createConnection({
+            const connection = createConnection({
               host: Address,
               port: Port,
-              user: "dvargas92495",
+              user: rdsUser,
               password: process.env.RDS_MASTER_PASSWORD,
             });
             connection.connect();
@@ -240,6 +359,9 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
             return new Promise((resolve) =>
               connection.query(`CREATE DATABASE ${mysqlName}`, resolve)
             )
+              .then((e) => {
+                process.env.MYSQL_DB_CREATED = e ? "" : "true";
+              })
               .then(
                 () =>
                   new Promise((resolve) =>
@@ -249,6 +371,9 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
                     )
                   )
               )
+              .then((e) => {
+                process.env.MYSQL_USER_CREATED = e ? "" : "true";
+              })
               .then(
                 () =>
                   new Promise((resolve) =>
@@ -264,13 +389,37 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
                     connection.query(`FLUSH PRIVILEGES`, resolve)
                   )
               )
-              .then(() => connection.end());
+              .then(() => {
+                connection.end();
+                reporter.artifact("database", `${Address}/${mysqlName}`);
+              });
+          }),
+      outputs: [
+        "MYSQL_PASSWORD",
+        "MYSQL_HOST",
+        "MYSQL_PORT",
+        "MYSQL_DB_CREATED",
+        "MYSQL_USER_CREATED",
+      ],
+      undo: () =>
+        dropDatabase(
+          createConnection({
+            host: process.env.MYSQL_HOST,
+            port: Number(process.env.MYSQL_PORT),
+            user: rdsUser,
+            password: process.env.RDS_MASTER_PASSWORD,
           }),
+          {
+            user: !!process.env.MYSQL_USER_CREATED,
+            database: !!process.env.MYSQL_DB_CREATED,
+          }
+        ),
     },
     {
       title: "Create local DB",
+      dependsOn: ["Verify site ownership", "Set up Clerk"],
       task: () => {
-        const connection = mysql.createConnection({
+        const connection = createConnection({
           host: "localhost",
           port: 5432,
           user: "root",
@@ -280,6 +429,9 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
         return new Promise((resolve) =>
           connection.query(`CREATE DATABASE ${mysqlName}`, resolve)
         )
+          .then((e) => {
+            process.env.LOCAL_MYSQL_DB_CREATED = e ? "" : "true";
+          })
           .then(
             () =>
               new Promise((resolve) =>
@@ -289,6 +441,9 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
                 )
               )
           )
+          .then((e) => {
+            process.env.LOCAL_MYSQL_USER_CREATED = e ? "" : "true";
+          })
           .then(
             () =>
               new Promise((resolve) =>
@@ -306,9 +461,26 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
           )
           .then(() => connection.end());
       },
+      outputs: ["LOCAL_MYSQL_DB_CREATED", "LOCAL_MYSQL_USER_CREATED"],
+      undo: () =>
+        dropDatabase(
+          createConnection({
+            host: "localhost",
+            port: 5432,
+            user: "root",
+            password: process.env.LOCAL_MYSQL_PASSWORD,
+          }),
+          {
+            user: !!process.env.LOCAL_MYSQL_USER_CREATED,
+            database: !!process.env.LOCAL_MYSQL_DB_CREATED,
+          }
+        ),
     },
     {
       title: "Set up Clerk",
+      // Runs on its own, so that its prompts are not lost in the output of
+      // other tasks.
+      dependsOn: ["Verify site ownership"],
       task: () => {
         return rlp(
           isSubdomain
@@ -346,14 +518,26 @@ const main = ({ rootDirectory }: { rootDirectory: string }) => {
             )
           );
       },
+      outputs: [
+        "CLERK_DEV_API_KEY",
+        "CLERK_DEV_FRONTEND_API",
+        "CLERK_DNS_ID",
+        "CLERK_API_KEY",
+      ],
     },
     {
       title: "Mustache",
+      dependsOn: ["Set up Clerk"],
       task: () => {
         const projectParts = projectName.split(".");
         const view = {
           safeProjectName,
           projectName,
+          owner,
+          author,
+          terraformOrganization,
+          license,
+          licenseText: renderLicense(license, copyrightHolder),
           DomainName,
           mysqlName,
           displayName: projectParts.map(
@@ -385,7 +569,10 @@ module "aws_clerk" {
         const files = readDir(rootDirectory);
         files
           .filter(
-            (f) => !f.includes("remix.init") && !f.includes("node_modules")
+            (f) =>
+              !f.includes("remix.init") &&
+              !f.includes("node_modules") &&
+              !f.endsWith(CHECKPOINT_FILE)
           )
           .forEach((f) => {
             try {
@@ -409,74 +596,67 @@ module "aws_clerk" {
     },
     {
       title: "Create a github repo",
+      dependsOn: ["Verify site ownership", "Set up Clerk"],
       task: () => {
-        return axios
-          .get(`https://api.github.com/repos/dvargas92495/${projectName}`)
+        return http
+          .get(`${githubApi}/repos/${owner}/${projectName}`, githubOpts)
           .then(() => console.log(chalk.yellow("Repo already exists.")))
           .catch((e) =>
-            e.response?.status === 404
-              ? axios
-                  .post(
-                    "https://api.github.com/user/repos",
-                    {
-                      name: projectName,
-                      homepage: projectName,
-                    },
-                    githubOpts
-                  )
-                  .catch((err) =>
-                    console.log(
-                      chalk.red("Failed to create repo", err.response?.data)
+            e.status === 404
+              ? getCreateRepoUrl(owner, githubOpts, githubApi)
+                  .then((url) =>
+                    http.post(
+                      url,
+                      {
+                        name: projectName,
+                        homepage: projectName,
+                      },
+                      githubOpts
                     )
                   )
-              : console.log(chalk.red("Failed to check repo", e.response?.data))
-          );
+                  .then(() => {
+                    process.env.GITHUB_REPO_CREATED = "true";
+                  })
+              : Promise.reject(e)
+          )
+          .then(() =>
+            reporter.artifact(
+              "repository",
+              `${githubUrl}/${owner}/${projectName}`
+            )
+          )
+          .catch(handleHttpError(onError, "Failed to create repo"));
       },
       skip: () => !process.env.GITHUB_TOKEN,
+      outputs: ["GITHUB_REPO_CREATED"],
+      // Leaves a repo that existed before the run alone.
+      undo: () =>
+        process.env.GITHUB_REPO_CREATED
+          ? http.delete(
+              `${githubApi}/repos/${owner}/${projectName}`,
+              githubOpts
+            )
+          : undefined,
     },
     {
       title: "Git init",
-      task: () => {
-        try {
-          process.chdir(rootDirectory);
-          return sync("git init", { stdio: "ignore" });
-        } catch (e) {
-          console.log(chalk.red("Failed to git init"));
-          console.log(e);
-          return Promise.resolve();
-        }
-      },
+      dependsOn: ["Mustache"],
+      task: () => runGit(["init"]),
     },
     {
       title: "Git add",
-      task: () => {
-        try {
-          process.chdir(rootDirectory);
-          return sync("git add -A", { stdio: "ignore" });
-        } catch (e) {
-          console.log(chalk.red("Failed to git init"));
-          console.log(e);
-          return Promise.resolve();
-        }
-      },
+      dependsOn: ["Git init"],
+      task: () => runGit(["add", "-A"]),
     },
     {
       title: "Git commit",
-      task: () => {
-        try {
-          process.chdir(rootDirectory);
-          return sync('git commit -m "Initial commit from Remix Fuego Stack"', {
-            stdio: "ignore",
-          });
-        } catch (e) {
-          console.log(chalk.red("Failed to git init"));
-          console.log(e);
-          return Promise.resolve();
-        }
-      },
+      dependsOn: ["Git add"],
+      task: () =>
+        runGit(["commit", "-m", "Initial commit from Remix Fuego Stack"]),
     },
     {
       title: "Git remote",
+      dependsOn: ["Git init"],
       task: () => {
         try {
           process.chdir(rootDirectory);
@@ -487,10 +667,10 @@ module "aws_clerk" {
                 "remote",
                 "add",
                 "origin",
-                `https://github.com/dvargas92495/${projectName}.git`,
+                `${githubUrl}/${owner}/${projectName}.git`,
               ],
               {
-                stdio: "inherit",
+                stdio: ["inherit", commandOutput, "inherit"],
               }
             );
             child.on("close", (code) => {
@@ -510,19 +690,12 @@ module "aws_clerk" {
     },
     {
       title: "Git push",
-      task: () => {
-        try {
-          process.chdir(rootDirectory);
-          return sync(`git push origin main`, { stdio: "ignore" });
-        } catch (e) {
-          console.log(chalk.red("Failed to git init"));
-          console.log(e);
-          return Promise.resolve();
-        }
-      },
+      dependsOn: ["Git commit", "Git remote", "Create a github repo"],
+      task: () => runGit(["push", "origin", "main"]),
     },
     {
       title: "Create Site Manager",
+      dependsOn: ["Verify site ownership", "Set up Clerk"],
       task: () => {
         return iam
           .createUser({
@@ -537,12 +710,7 @@ module "aws_clerk" {
                   GroupName: "static-site-managers",
                 })
                 .promise(),
-              ...[
-                "arn:aws:iam::aws:policy/AWSLambda_FullAccess",
-                "arn:aws:iam::aws:policy/AmazonAPIGatewayAdministrator",
-                "arn:aws:iam::aws:policy/AmazonDynamoDBFullAccess",
-                "arn:aws:iam::aws:policy/AmazonSESFullAccess",
-              ].map((PolicyArn) =>
+              ...sitePolicies.map((PolicyArn) =>
                 iam
                   .attachUserPolicy({
                     UserName: safeProjectName,
@@ -559,25 +727,71 @@ module "aws_clerk" {
             process.env.AWS_ACCESS_KEY_ID = creds.AccessKey.AccessKeyId;
             process.env.AWS_SECRET_ACCESS_KEY = creds.AccessKey.SecretAccessKey;
             fs.appendFileSync(
-              path.resolve(`${process.env.HOME}/.aws/credentials`),
-              `[${safeProjectName}]\naws_access_key_id = ${creds.AccessKey.AccessKeyId}\naws_secret_access_key = ${creds.AccessKey.SecretAccessKey}\n`
+              credentialsPath,
+              getCredentialsProfile(
+                creds.AccessKey.AccessKeyId,
+                creds.AccessKey.SecretAccessKey
+              )
             );
             console.log(
               chalk.green("Successfully created keys for", safeProjectName)
             );
+            reporter.artifact("awsUser", safeProjectName);
             return;
           });
       },
+      outputs: ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"],
+      // IAM only deletes users without keys, groups or policies.
+      undo: () =>
+        iam
+          .deleteAccessKey({
+            UserName: safeProjectName,
+            AccessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
+          })
+          .promise()
+          .then(() =>
+            Promise.all([
+              iam
+                .removeUserFromGroup({
+                  UserName: safeProjectName,
+                  GroupName: "static-site-managers",
+                })
+                .promise(),
+              ...sitePolicies.map((PolicyArn) =>
+                iam
+                  .detachUserPolicy({ UserName: safeProjectName, PolicyArn })
+                  .promise()
+              ),
+            ])
+          )
+          .then(() => iam.deleteUser({ UserName: safeProjectName }).promise())
+          .then(() => {
+            if (!fs.existsSync(credentialsPath)) return;
+            fs.writeFileSync(
+              credentialsPath,
+              fs
+                .readFileSync(credentialsPath)
+                .toString()
+                .replace(
+                  getCredentialsProfile(
+                    process.env.AWS_ACCESS_KEY_ID,
+                    process.env.AWS_SECRET_ACCESS_KEY
+                  ),
+                  ""
+                )
+            );
+          }),
     },
     {
       title: "Create Workspace And Kick off Run",
+      dependsOn: [
+        "Verify site ownership",
+        "Create RDS DB",
+        "Set up Clerk",
+        "Create Site Manager",
+        "Git push",
+      ],
       task: () => {
-        const tfOpts = {
-          headers: {
-            Authorization: `Bearer ${process.env.TERRAFORM_ORGANIZATION_TOKEN}`,
-            "Content-Type": "application/vnd.api+json",
-          },
-        };
         const userTfOpts = {
           ...tfOpts,
           headers: {
@@ -585,11 +799,11 @@ module "aws_clerk" {
             Authorization: `Bearer ${process.env.TERRAFORM_USER_TOKEN}`,
           },
         };
-        return axios
+        return http
           .get<{
             data: { attributes: { "service-provider": string }; id: string }[];
           }>(
-            "https://app.terraform.io/api/v2/organizations/VargasArts/oauth-clients",
+            `${terraformApi}/organizations/${terraformOrganization}/oauth-clients`,
             tfOpts
           )
           .then(
@@ -599,17 +813,14 @@ module "aws_clerk" {
               )?.id
           )
           .then((id) =>
-            axios
-              .get(
-                `https://app.terraform.io/api/v2/oauth-clients/${id}/oauth-tokens`,
-                tfOpts
-              )
+            http
+              .get(`${terraformApi}/oauth-clients/${id}/oauth-tokens`, tfOpts)
               .then((r) => r.data.data[0].id)
           )
           .then((id) =>
-            axios
+            http
               .post(
-                "https://app.terraform.io/api/v2/organizations/VargasArts/workspaces",
+                `${terraformApi}/organizations/${terraformOrganization}/workspaces`,
                 {
                   data: {
                     type: "workspaces",
@@ -618,14 +829,18 @@ module "aws_clerk" {
                       "auto-apply": true,
                       "vcs-repo": {
                         "oauth-token-id": id,
-                        identifier: `dvargas92495/${projectName}`,
+                        identifier: `${owner}/${projectName}`,
                       },
                     },
                   },
                 },
                 tfOpts
               )
-              .then((r) => r.data.data.id)
+              .then((r) => {
+                process.env.TERRAFORM_WORKSPACE_ID = r.data.data.id;
+                reporter.artifact("terraformWorkspaceId", r.data.data.id);
+                return r.data.data.id;
+              })
           )
           .then((id) =>
             Promise.all(
@@ -655,8 +870,8 @@ module "aws_clerk" {
                     )
                   );
                 }
-                return axios.post(
-                  `https://app.terraform.io/api/v2/workspaces/${id}/vars`,
+                return http.post(
+                  `${terraformApi}/workspaces/${id}/vars`,
                   {
                     data: {
                       type: "vars",
@@ -673,8 +888,8 @@ module "aws_clerk" {
               })
             )
               .then(() =>
-                axios.post(
-                  `https://app.terraform.io/api/v2/runs`,
+                http.post(
+                  `${terraformApi}/runs`,
                   {
                     data: {
                       attributes: {
@@ -699,12 +914,10 @@ module "aws_clerk" {
                 console.log(
                   chalk.green(`Successfully kicked off run ${runId}`)
                 );
+                reporter.artifact("terraformRunId", runId);
                 const checkTerraformStatus = (): Promise<void> =>
-                  axios
-                    .get(
-                      `https://app.terraform.io/api/v2/runs/${runId}`,
-                      userTfOpts
-                    )
+                  http
+                    .get(`${terraformApi}/runs/${runId}`, userTfOpts)
                     .then((d) => {
                       const { status } = d.data.data.attributes;
                       if (
@@ -744,23 +957,28 @@ module "aws_clerk" {
                     });
                 return checkTerraformStatus();
               })
-              .catch((e) => {
-                console.log(
-                  chalk.yellow(
-                    `Failed to kick off the terraform run. Do so manually. Error:`
-                  )
-                );
-                console.log(chalk.yellow(e));
-              })
+              .catch(
+                handleHttpError(onError, "Failed to kick off the terraform run")
+              )
           );
       },
+      outputs: ["TERRAFORM_WORKSPACE_ID"],
+      // Safe deletes fail while the workspace still manages resources, which
+      // its run may have applied already.
+      undo: () =>
+        http.post(
+          `${terraformApi}/workspaces/${process.env.TERRAFORM_WORKSPACE_ID}/actions/safe-delete`,
+          undefined,
+          tfOpts
+        ),
     },
     {
       title: "Write .env",
+      dependsOn: ["Set up Clerk"],
       task: () => {
         return Promise.resolve(
           fs.writeFileSync(
-            ".env",
+            path.join(rootDirectory, ".env"),
             `API_URL=http://localhost:3003
 CLERK_API_KEY=${process.env.CLERK_DEV_API_KEY}
 CLERK_FRONTEND_API=${process.env.CLERK_DEV_FRONTEND_API}
@@ -776,10 +994,11 @@ STRIPE_WEBHOOK_SECRET=${process.env.TEST_STRIPE_WEBHOOK_SECRET}
     },
     {
       title: "Kick off first action",
+      dependsOn: ["Create Workspace And Kick off Run"],
       task: () =>
-        axios
+        http
           .post(
-            `https://api.github.com/repos/dvargas92495/${projectName}/actions/workflows/main.yaml/dispatches`,
+            `${githubApi}/repos/${owner}/${projectName}/actions/workflows/main.yaml/dispatches`,
             { ref: "main" },
             githubOpts
           )
@@ -789,9 +1008,10 @@ STRIPE_WEBHOOK_SECRET=${process.env.TEST_STRIPE_WEBHOOK_SECRET}
                 setTimeout(
                   () =>
                     resolve(
-                      axios
+                      http
                         .get(
-                          `https://api.github.com/repos/dvargas92495/${projectName}/actions/runs`
+                          `${githubApi}/repos/${owner}/${projectName}/actions/runs`,
+                          githubOpts
                         )
                         .then((r) => checkGhStatus(r.data.workflow_runs[0].id))
                     ),
@@ -802,6 +1022,7 @@ STRIPE_WEBHOOK_SECRET=${process.env.TEST_STRIPE_WEBHOOK_SECRET}
     },
     {
       title: "Execute these Manual Steps:",
+      dependsOn: ["Kick off first action"],
       task: () => {
         if (!isSubdomain) {
           console.log(
@@ -824,44 +1045,22 @@ STRIPE_WEBHOOK_SECRET=${process.env.TEST_STRIPE_WEBHOOK_SECRET}
     },
   ];
 
-  const run = async () => {
-    for (const task of tasks) {
-      console.log(chalk.blue("Running", task.title, "..."));
-      if (task.skip?.()) {
-        console.log(chalk.blueBright("Skipped", task.title));
-        continue;
-      }
-      const result = await Promise.resolve(task.task)
-        .then((t) => t())
-        .then(() => {
-          console.log(chalk.greenBright("Successfully Ran", task.title));
-          return { success: true as const, message: "" };
-        })
-        .catch((e) => {
-          console.log(chalk.redBright("Failed to run", task.title));
-          return { success: false as const, message: e.message };
-        });
-      if (!result.success) {
-        const rest = tasks.slice(tasks.indexOf(task) + 1);
-        rest.forEach((r) =>
-          console.log(
-            chalk.grey(
-              "Skipped task",
-              r.title,
-              "due to failure from previous task"
-            )
-          )
-        );
-        return Promise.reject(result.message);
-      }
-    }
-    return { success: true as const, message: "" };
-  };
-
-  return run()
+  return Promise.resolve()
+    .then(() =>
+      applyPlugins(tasks, loadPlugins(plugins), {
+        projectName,
+        root: rootDirectory,
+        isReact: true,
+        isCli: false,
+        config,
+        getSecret: (name) => process.env[name],
+      })
+    )
+    .then((allTasks) =>
+      runTasks(allTasks, { root: rootDirectory, resume, rollback, reporter })
+    )
     .then(() => console.log(chalk.greenBright(`${projectName} is Ready!`)))
-    .catch((e) => console.error(chalk.redBright(e)))
-    .finally(() => rl.close());
+    .finally(() => rl?.close());
 };
 
 export default main;
@@ -0,0 +1,31 @@
+import esbuild from "esbuild";
+
+const options = {
+  bundle: true,
+  minify: true,
+  sourcemap: true,
+  packages: "external",
+};
+const index = "src/index.ts{{{#isReact}}}x{{{/isReact}}}";{{{#isCli}}}
+const cli = "src/cli.ts";{{{/isCli}}}
+
+Promise.all([{{{#isDual}}}
+  esbuild.build({
+    ...options,
+    entryPoints: [index{{{#isCli}}}, cli{{{/isCli}}}],
+    format: "esm",
+    outdir: "dist/esm",
+  }),
+  esbuild.build({
+    ...options,
+    entryPoints: [index],
+    format: "cjs",
+    outdir: "dist/cjs",
+  }),{{{/isDual}}}{{{^isDual}}}
+  esbuild.build({
+    ...options,
+    entryPoints: [index{{{#isCli}}}, cli{{{/isCli}}}],
+    format: "{{{moduleFormat}}}",
+    outdir: "dist",
+  }),{{{/isDual}}}
+]).catch(() => process.exit(1));
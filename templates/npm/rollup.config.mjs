@@ -0,0 +1,30 @@
+import terser from "@rollup/plugin-terser";
+import typescript from "@rollup/plugin-typescript";
+
+const index = "src/index.ts{{{#isReact}}}x{{{/isReact}}}";{{{#isCli}}}
+const cli = "src/cli.ts";{{{/isCli}}}
+
+const config = (input, dir, format) => ({
+  input,
+  // Leave dependencies for the consumer's bundler to resolve.
+  external: (id) => !/^[./]/.test(id),
+  output: { dir, format, sourcemap: true, exports: "named" },
+  plugins: [
+    // Rollup converts the ES modules to each output format itself, and tsc
+    // emits the declarations once the bundle is written.
+    typescript({
+      module: "esnext",
+      moduleResolution: "bundler",
+      declaration: false,
+      outDir: dir,
+    }),
+    terser(),
+  ],
+});
+
+export default [{{{#isDual}}}
+  config([index{{{#isCli}}}, cli{{{/isCli}}}], "dist/esm", "es"),
+  config([index], "dist/cjs", "cjs"),{{{/isDual}}}{{{#isEsm}}}
+  config([index{{{#isCli}}}, cli{{{/isCli}}}], "dist", "es"),{{{/isEsm}}}{{{#isCjs}}}
+  config([index{{{#isCli}}}, cli{{{/isCli}}}], "dist", "cjs"),{{{/isCjs}}}
+];
@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+import meow from "meow";
+import run from "./index.js";
+
+const helpText = `
+Usage:
+  $ {{{projectName}}} [options]
+Options:
+  --help     Print this help message and exit
+  --version  Print the CLI version and exit
+  --verbose  Log what the CLI is doing
+`;
+
+const { flags } = meow(helpText, {
+{{{^isCjs}}}
+  importMeta: import.meta,
+{{{/isCjs}}}
+  flags: {
+    verbose: { type: "boolean" },
+  },
+});
+
+if (flags.verbose) console.log("Running {{{projectName}}}...");
+process.exitCode = run();
@@ -0,0 +1,5 @@
+const run = (): number => {
+  return 0;
+};
+
+export default run;
@@ -0,0 +1,5 @@
+import React from "react";
+
+const Package: React.FunctionComponent = () => <div>Fill out component!</div>;
+
+export default Package;
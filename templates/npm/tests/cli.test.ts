@@ -0,0 +1,36 @@
+{{{#isNodeTest}}}
+import assert from "node:assert";
+import { test } from "node:test";
+{{{/isNodeTest}}}
+{{{#isVitest}}}
+import { expect, test } from "vitest";
+{{{/isVitest}}}
+import { spawnSync } from "child_process";
+import path from "path";
+
+// Runs the built CLI, which the pretest script builds.
+const cli = (...args: string[]) =>
+  spawnSync(process.execPath, [path.resolve("{{{binPath}}}"), ...args], {
+    encoding: "utf8",
+  });
+
+test("Prints Help", () => {
+  const { status, stdout } = cli("--help");
+{{{#isNodeTest}}}
+  assert.strictEqual(status, 0);
+  assert.match(stdout, /Usage:/);
+{{{/isNodeTest}}}
+{{{^isNodeTest}}}
+  expect(status).toBe(0);
+  expect(stdout).toContain("Usage:");
+{{{/isNodeTest}}}
+});
+
+test("Runs Default", () => {
+{{{#isNodeTest}}}
+  assert.strictEqual(cli().status, 0);
+{{{/isNodeTest}}}
+{{{^isNodeTest}}}
+  expect(cli().status).toBe(0);
+{{{/isNodeTest}}}
+});
@@ -0,0 +1,17 @@
+{{{#isNodeTest}}}
+import assert from "node:assert";
+import { test } from "node:test";
+{{{/isNodeTest}}}
+{{{#isVitest}}}
+import { expect, test } from "vitest";
+{{{/isVitest}}}
+import run from "../src";
+
+test("Runs Default", () => {
+{{{#isNodeTest}}}
+  assert.strictEqual(run(), 0);
+{{{/isNodeTest}}}
+{{{^isNodeTest}}}
+  expect(run()).toBe(0);
+{{{/isNodeTest}}}
+});
@@ -0,0 +1,23 @@
+{{{#isNodeTest}}}
+import assert from 'node:assert';
+import { test } from 'node:test';
+{{{/isNodeTest}}}
+{{{#isVitest}}}
+import { expect, test } from 'vitest';
+{{{/isVitest}}}
+{{{#isJest}}}
+import '@testing-library/jest-dom';
+{{{/isJest}}}
+import React from 'react';
+import Package from '../src';
+import { render } from '@testing-library/react';
+
+test('Renders Package', () => {
+  const { container } = render(<Package/>);
+{{{#isNodeTest}}}
+  assert.ok(container.firstChild);
+{{{/isNodeTest}}}
+{{{^isNodeTest}}}
+  expect(container).toBeInTheDocument();
+{{{/isNodeTest}}}
+});
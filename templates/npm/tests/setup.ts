@@ -0,0 +1,7 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Testing Library only unmounts between tests by itself when the runner's
+// globals are enabled.
+afterEach(cleanup);
@@ -0,0 +1,26 @@
+import { defineConfig, Options } from "tsup";
+
+const options: Options = {
+  minify: true,
+  sourcemap: true,
+  // Keep .js extensions, the package.json exports point at them.
+  outExtension: () => ({ js: ".js" }),
+};
+const index = "src/index.ts{{{#isReact}}}x{{{/isReact}}}";{{{#isCli}}}
+const cli = "src/cli.ts";{{{/isCli}}}
+
+export default defineConfig([{{{#isDual}}}
+  {
+    ...options,
+    entry: [index{{{#isCli}}}, cli{{{/isCli}}}],
+    format: "esm",
+    outDir: "dist/esm",
+  },
+  { ...options, entry: [index], format: "cjs", outDir: "dist/cjs" },{{{/isDual}}}{{{^isDual}}}
+  {
+    ...options,
+    entry: [index{{{#isCli}}}, cli{{{/isCli}}}],
+    format: "{{{moduleFormat}}}",
+    outDir: "dist",
+  },{{{/isDual}}}
+]);
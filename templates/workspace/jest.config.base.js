@@ -0,0 +1,7 @@
+module.exports = {
+  transform: {
+    "^.+\\.(t|j)sx?$": ["ts-jest", { tsconfig: { module: "commonjs" } }],
+  },
+  testRegex: "/tests/.*\\.test\\.tsx?$",
+  moduleFileExtensions: ["ts", "tsx", "js", "jsx"],
+};
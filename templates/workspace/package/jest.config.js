@@ -0,0 +1,6 @@
+module.exports = {
+  ...require("../../jest.config.base"),
+  displayName: "{{{rawName}}}",{{{#isReact}}}
+  testEnvironment: "jsdom",
+  setupFilesAfterEnv: ["@testing-library/jest-dom"],{{{/isReact}}}
+};
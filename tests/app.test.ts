@@ -0,0 +1,301 @@
+import AWS from "aws-sdk";
+import fs from "fs";
+import mysql from "mysql";
+import path from "path";
+import createApp from "../template/remix.init";
+import { templatePath } from "../src/paths";
+import {
+  copyDir,
+  createSpawner,
+  createStubServer,
+  expectCalls,
+  listFiles,
+  routes,
+  StubRequest,
+  StubServer,
+  useSandbox,
+} from "./stubs";
+
+const repoApi = "/api/v3/repos/acme/example.com";
+const runs = `${repoApi}/actions/runs`;
+
+// The query API of IAM and RDS answers with the action's result wrapped in
+// its response.
+const awsResult = (action: string, result = "") =>
+  `<${action}Response><${action}Result>${result}</${action}Result><ResponseMetadata><RequestId>request-1</RequestId></ResponseMetadata></${action}Response>`;
+
+const awsResults: Record<string, string> = {
+  DescribeDBInstances: awsResult(
+    "DescribeDBInstances",
+    "<DBInstances><DBInstance><Endpoint><Address>db.acme.dev</Address><Port>3306</Port></Endpoint></DBInstance></DBInstances>"
+  ),
+  CreateAccessKey: awsResult(
+    "CreateAccessKey",
+    "<AccessKey><UserName>example-com</UserName><AccessKeyId>AKIA1</AccessKeyId><SecretAccessKey>secret-1</SecretAccessKey><Status>Active</Status></AccessKey>"
+  ),
+};
+
+// Route53 is a REST API, while IAM and RDS take the action in the form body.
+const getAwsAction = ({ method, url, body }: StubRequest) =>
+  new URLSearchParams(body).get("Action") || `${method} ${url}`;
+
+const answers: [RegExp, string][] = [
+  [/developer api key/, "dev-key"],
+  [/developer clerk frontend/, "https://clerk.example.com"],
+  [/production api key/, "prod-key"],
+];
+
+const sandbox = useSandbox();
+let github: StubServer;
+let terraform: StubServer;
+let aws: StubServer;
+let dispatchStatus: number;
+let hostedZonesStatus: number;
+let terraformRunStatus: number;
+
+beforeEach(async () => {
+  fs.mkdirSync(path.join(sandbox.home, ".aws"));
+  fs.writeFileSync(
+    path.join(sandbox.home, ".aws", "credentials"),
+    "[acme]\naws_access_key_id = AKIA0\naws_secret_access_key = secret-0\n"
+  );
+  AWS.config.update({ region: "us-east-1" });
+  process.env.GITHUB_TOKEN = "github-token";
+  dispatchStatus = 204;
+  hostedZonesStatus = 200;
+  terraformRunStatus = 201;
+  github = await createStubServer((request) =>
+    request.method === "POST" &&
+    request.url === `${repoApi}/actions/workflows/main.yaml/dispatches`
+      ? { status: dispatchStatus }
+      : routes({
+          "GET /api/v3/user": { body: { login: "acme" } },
+          "POST /api/v3/user/repos": { status: 201 },
+          [`GET ${runs}`]: { body: { workflow_runs: [{ id: 7 }] } },
+          [`GET ${runs}/7`]: {
+            body: { status: "completed", conclusion: "success" },
+          },
+          [`DELETE ${repoApi}`]: { status: 204 },
+        })(request)
+  );
+  terraform = await createStubServer((request) => {
+    const response = routes({
+      "GET /api/v2/organizations/acme-org/oauth-clients": {
+        body: {
+          data: [{ id: "oc-1", attributes: { "service-provider": "github" } }],
+        },
+      },
+      "GET /api/v2/oauth-clients/oc-1/oauth-tokens": {
+        body: { data: [{ id: "ot-1" }] },
+      },
+      "POST /api/v2/organizations/acme-org/workspaces": {
+        status: 201,
+        body: { data: { id: "ws-1" } },
+      },
+      "POST /api/v2/workspaces/ws-1/vars": { status: 201 },
+      "POST /api/v2/runs": { body: { data: { id: "run-1" } } },
+      "GET /api/v2/runs/run-1": {
+        body: { data: { attributes: { status: "applied" } } },
+      },
+      "POST /api/v2/workspaces/ws-1/actions/safe-delete": { status: 204 },
+    })(request);
+    return `${request.method} ${request.url}` === "POST /api/v2/runs"
+      ? { ...response, status: terraformRunStatus }
+      : response;
+  });
+  aws = await createStubServer((request) => {
+    const action = getAwsAction(request);
+    return action === "GET /2013-04-01/hostedzone" && hostedZonesStatus !== 200
+      ? {
+          status: hostedZonesStatus,
+          body: "<ErrorResponse><Error><Type>Sender</Type><Code>AccessDenied</Code><Message>Denied</Message></Error></ErrorResponse>",
+        }
+      : action === "GET /2013-04-01/hostedzone"
+      ? {
+          body: `<ListHostedZonesResponse><HostedZones><HostedZone><Id>/hostedzone/Z1</Id><Name>example.com.</Name><CallerReference>ref-1</CallerReference></HostedZone></HostedZones><IsTruncated>false</IsTruncated><MaxItems>100</MaxItems></ListHostedZonesResponse>`,
+        }
+      : { body: awsResults[action] || awsResult(action) };
+  }, getAwsAction);
+});
+
+afterEach(() => Promise.all([github.close(), terraform.close(), aws.close()]));
+
+const run = ({
+  rollback = false,
+  failQuery = (_sql: string): boolean => false,
+  failCommand = (_command: string, _args: string[]): boolean => false,
+} = {}) => {
+  const root = path.join(sandbox.cwd, "example.com");
+  copyDir(templatePath(), root, ["remix.init", "node_modules"]);
+  const queries: string[] = [];
+  const createConnection = (({ host }: mysql.ConnectionConfig) => ({
+    connect: () => undefined,
+    query: (sql: string, callback: (e: Error | null) => void) => {
+      queries.push(`${host}: ${sql}`);
+      setImmediate(() =>
+        callback(failQuery(`${host}: ${sql}`) ? new Error("exists") : null)
+      );
+    },
+    end: () => undefined,
+  })) as unknown as typeof mysql.createConnection;
+  const { spawner, commands } = createSpawner(failCommand);
+  const questions: string[] = [];
+  return createApp({
+    rootDirectory: root,
+    rollback,
+    config: {
+      owner: "acme",
+      author: "Ada Lovelace",
+      email: "ada@acme.dev",
+      hostUrl: github.url,
+      terraformUrl: terraform.url,
+      terraformOrganization: "acme-org",
+      awsProfile: "acme",
+      awsEndpoint: aws.url,
+    },
+    createConnection,
+    spawner,
+    prompt: (question) => {
+      questions.push(question);
+      return Promise.resolve(
+        answers.find(([q]) => q.test(question))?.[1] || ""
+      );
+    },
+  })
+    .then(
+      () => undefined,
+      (e) => e
+    )
+    .then((error) => ({ root, error, queries, commands, questions }));
+};
+
+const policyActions = Array(4).fill("AttachUserPolicy");
+
+test("creates an app and everything it runs on", async () => {
+  const { root, error, queries, commands } = await run();
+  expect(error).toBeUndefined();
+
+  expect(listFiles(root)).toEqual(
+    [
+      ...listFiles(templatePath(), ["remix.init", "node_modules"]),
+      ".env",
+    ].sort()
+  );
+  listFiles(root).forEach((f) =>
+    expect(fs.readFileSync(path.join(root, f)).toString()).not.toContain("{{{")
+  );
+  expect(fs.readFileSync(path.join(root, ".env")).toString()).toContain(
+    "CLERK_API_KEY=dev-key\nCLERK_FRONTEND_API=https://clerk.example.com\n"
+  );
+
+  expectCalls(github.calls, [
+    `GET ${repoApi}`,
+    "GET /api/v3/user",
+    "POST /api/v3/user/repos",
+    `POST ${repoApi}/actions/workflows/main.yaml/dispatches`,
+    `GET ${runs}`,
+    `GET ${runs}/7`,
+  ]);
+  expectCalls(terraform.calls, [
+    "GET /api/v2/organizations/acme-org/oauth-clients",
+    "GET /api/v2/oauth-clients/oc-1/oauth-tokens",
+    "POST /api/v2/organizations/acme-org/workspaces",
+    Array(9).fill("POST /api/v2/workspaces/ws-1/vars"),
+    "POST /api/v2/runs",
+    "GET /api/v2/runs/run-1",
+  ]);
+  // Each task talks to a different AWS service, and the tasks run side by
+  // side.
+  expectCalls(
+    aws.calls.filter(
+      (c) => c !== "DescribeDBInstances" && !c.startsWith("GET")
+    ),
+    ["CreateUser", ["AddUserToGroup", ...policyActions], "CreateAccessKey"]
+  );
+  expect(aws.calls).toContain("DescribeDBInstances");
+  expect(aws.calls).toContain("GET /2013-04-01/hostedzone");
+  const onHost = (host: string) =>
+    queries.filter((q) => q.startsWith(`${host}: `));
+  expect(onHost("db.acme.dev")).toEqual([
+    "db.acme.dev: CREATE DATABASE example_com",
+    expect.stringMatching(
+      /^db\.acme\.dev: CREATE USER 'example_com'@'%' IDENTIFIED BY '\w{16}'$/
+    ),
+    "db.acme.dev: GRANT ALL PRIVILEGES ON example_com . * TO 'example_com'@'%'",
+    "db.acme.dev: FLUSH PRIVILEGES",
+  ]);
+  expect(onHost("localhost")).toEqual([
+    "localhost: CREATE DATABASE example_com",
+    "localhost: CREATE USER 'example_com'@'%' IDENTIFIED BY 'example_com'",
+    "localhost: GRANT ALL PRIVILEGES ON example_com . * TO 'example_com'@'%'",
+    "localhost: FLUSH PRIVILEGES",
+  ]);
+  expect(commands).toEqual([
+    ["git", ["init"]],
+    ["git", ["add", "-A"]],
+    ["git", ["remote", "add", "origin", `${github.url}/acme/example.com.git`]],
+    ["git", ["commit", "-m", "Initial commit from Remix Fuego Stack"]],
+    ["git", ["push", "origin", "main"]],
+  ]);
+});
+
+test("rolls back only what the run created", async () => {
+  dispatchStatus = 422;
+  const { error, queries } = await run({
+    rollback: true,
+    // The local database and user are left from an earlier app.
+    failQuery: (sql) => /^localhost: CREATE (DATABASE|USER)/.test(sql),
+  });
+  expect(error).toBeDefined();
+
+  expect(github.calls.slice(-2)).toEqual([
+    `POST ${repoApi}/actions/workflows/main.yaml/dispatches`,
+    `DELETE ${repoApi}`,
+  ]);
+  expect(terraform.calls.slice(-1)).toEqual([
+    "POST /api/v2/workspaces/ws-1/actions/safe-delete",
+  ]);
+  expectCalls(aws.calls.slice(-(policyActions.length + 3)), [
+    "DeleteAccessKey",
+    ["RemoveUserFromGroup", ...policyActions.map(() => "DetachUserPolicy")],
+    "DeleteUser",
+  ]);
+  expect(queries.filter((q) => q.includes("DROP"))).toEqual([
+    "db.acme.dev: DROP USER 'example_com'@'%'",
+    "db.acme.dev: DROP DATABASE example_com",
+  ]);
+});
+
+test("creates nothing when the domain check fails", async () => {
+  hostedZonesStatus = 403;
+  const { error, queries, commands, questions } = await run();
+  expect(error).toBeDefined();
+
+  expect(aws.calls).toEqual(["GET /2013-04-01/hostedzone"]);
+  expect(github.calls).toEqual([]);
+  expect(terraform.calls).toEqual([]);
+  expect(queries).toEqual([]);
+  expect(commands).toEqual([]);
+  expect(questions).toEqual([]);
+});
+
+test("stops before Terraform when git fails", async () => {
+  const { error, commands } = await run({
+    failCommand: (command, [subcommand]) => subcommand === "push",
+  });
+  expect(error).toBeDefined();
+
+  expect(commands).toContainEqual(["git", ["push", "origin", "main"]]);
+  expect(terraform.calls).toEqual([]);
+});
+
+test("fails when the Terraform run cannot be kicked off", async () => {
+  terraformRunStatus = 500;
+  const { error } = await run();
+  expect(error).toBeDefined();
+
+  expect(terraform.calls.slice(-1)).toEqual(["POST /api/v2/runs"]);
+  expect(github.calls).not.toContainEqual(
+    expect.stringContaining("dispatches")
+  );
+});
@@ -0,0 +1,69 @@
+import createHost from "../src/hosts";
+import { createStubServer, StubResponse, StubServer } from "./stubs";
+
+// A Curve25519 public key, which GitHub secrets are sealed with.
+const publicKey = Buffer.alloc(32, 1).toString("base64");
+
+let server: StubServer;
+let replies: Record<string, StubResponse[]>;
+
+beforeEach(async () => {
+  replies = {};
+  server = await createStubServer(
+    ({ method, url }) =>
+      replies[`${method} ${url}`]?.shift() || {
+        status: 404,
+        body: { message: "Not Found" },
+      }
+  );
+});
+
+afterEach(() => server.close());
+
+test("GitHub fetches the public key again after failing to", async () => {
+  const keyUrl = "GET /api/v3/repos/acme/widget/actions/secrets/public-key";
+  replies = {
+    [keyUrl]: [{ status: 404 }, { body: { key: publicKey, key_id: "k" } }],
+    "PUT /api/v3/repos/acme/widget/actions/secrets/FIRST": [{ status: 201 }],
+    "PUT /api/v3/repos/acme/widget/actions/secrets/SECOND": [{ status: 201 }],
+  };
+  const host = createHost("github", {
+    owner: "acme",
+    repo: "widget",
+    url: server.url,
+    token: "token",
+  });
+  await expect(host.setSecret("FIRST", "one")).rejects.toMatchObject({
+    status: 404,
+  });
+  await host.setSecret("FIRST", "one");
+  await host.setSecret("SECOND", "two");
+  expect(server.calls).toEqual([
+    keyUrl,
+    keyUrl,
+    "PUT /api/v3/repos/acme/widget/actions/secrets/FIRST",
+    "PUT /api/v3/repos/acme/widget/actions/secrets/SECOND",
+  ]);
+});
+
+test("GitLab masks the variables it can", async () => {
+  const variables = "/api/v4/projects/acme%2Fwidget/variables";
+  replies = {
+    [`PUT ${variables}/NPM_TOKEN`]: [{}],
+    [`PUT ${variables}/SHORT`]: [{ status: 404 }],
+    [`POST ${variables}`]: [{ status: 201 }],
+  };
+  const host = createHost("gitlab", {
+    owner: "acme",
+    repo: "widget",
+    url: server.url,
+    token: "token",
+  });
+  await host.setSecret("NPM_TOKEN", "npm_abcdef123456");
+  await host.setSecret("SHORT", "abc");
+  expect(server.requests.map((r) => JSON.parse(r.body))).toEqual([
+    { value: "npm_abcdef123456", masked: true },
+    { value: "abc", masked: false },
+    { key: "SHORT", value: "abc", masked: false },
+  ]);
+});
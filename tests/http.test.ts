@@ -0,0 +1,128 @@
+import { createHttpClient, handleHttpError } from "../src/http";
+import { createStubServer, StubResponse, StubServer } from "./stubs";
+
+let server: StubServer;
+let replies: StubResponse[];
+let delays: number[];
+
+beforeEach(async () => {
+  replies = [];
+  server = await createStubServer(() => replies.shift() || {});
+  // Records the waits between attempts without sitting through them.
+  delays = [];
+  const wait = global.setTimeout;
+  jest.spyOn(global, "setTimeout").mockImplementation(((
+    callback: () => void,
+    ms: number
+  ) => {
+    delays.push(ms);
+    return wait(callback, 0);
+  }) as typeof setTimeout);
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  return server.close();
+});
+
+// Without a timeout, the only timers axios sees are the waits between attempts.
+const http = createHttpClient({
+  retries: 2,
+  minDelay: 100,
+  maxDelay: 5000,
+  timeout: 0,
+});
+
+test("retries transient failures with exponential backoff", async () => {
+  replies = [{ status: 503 }, { status: 502 }, { body: { ok: true } }];
+  const { data } = await http.get(`${server.url}/thing`);
+  expect(data).toEqual({ ok: true });
+  expect(server.calls).toHaveLength(3);
+  expect(delays).toEqual([100, 200]);
+});
+
+test("gives up once the retries run out", async () => {
+  replies = [{ status: 500 }, { status: 500 }, { status: 500 }];
+  await expect(http.get(`${server.url}/thing`)).rejects.toMatchObject({
+    method: "GET",
+    status: 500,
+    message: expect.stringContaining("failed with 500"),
+  });
+  expect(server.calls).toHaveLength(3);
+});
+
+test("does not retry requests that are not safe to send twice", async () => {
+  replies = [{ status: 503 }];
+  await expect(http.post(`${server.url}/thing`, {})).rejects.toMatchObject({
+    status: 503,
+  });
+  expect(server.calls).toEqual(["POST /thing"]);
+});
+
+test("does not retry client errors", async () => {
+  replies = [{ status: 404 }];
+  await expect(http.get(`${server.url}/thing`)).rejects.toMatchObject({
+    status: 404,
+  });
+  expect(server.calls).toHaveLength(1);
+});
+
+describe("rate limits", () => {
+  test("waits as long as Retry-After says, even for a POST", async () => {
+    replies = [{ status: 429, headers: { "Retry-After": "2" } }];
+    await http.post(`${server.url}/thing`, {});
+    expect(server.calls).toEqual(["POST /thing", "POST /thing"]);
+    expect(delays).toEqual([2000]);
+  });
+
+  test("waits until X-RateLimit-Reset on GitHub's 403", async () => {
+    replies = [
+      {
+        status: 403,
+        headers: {
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": `${Math.ceil(Date.now() / 1000) + 3}`,
+        },
+      },
+    ];
+    await http.get(`${server.url}/thing`);
+    expect(delays).toHaveLength(1);
+    expect(delays[0]).toBeGreaterThan(1000);
+    expect(delays[0]).toBeLessThanOrEqual(4000);
+  });
+
+  test("falls back to the backoff when Retry-After does not parse", async () => {
+    replies = [{ status: 429, headers: { "Retry-After": "soon" } }];
+    await http.get(`${server.url}/thing`);
+    expect(server.calls).toHaveLength(2);
+    expect(delays).toEqual([100]);
+  });
+
+  test("fails right away when the wait is too long", async () => {
+    replies = [{ status: 429, headers: { "Retry-After": "120" } }];
+    await expect(http.get(`${server.url}/thing`)).rejects.toMatchObject({
+      status: 429,
+      message: expect.stringContaining("rate limited until"),
+    });
+    expect(delays).toEqual([]);
+  });
+
+  test("does not retry a 403 that is not a rate limit", async () => {
+    replies = [{ status: 403 }];
+    await expect(http.get(`${server.url}/thing`)).rejects.toMatchObject({
+      status: 403,
+    });
+    expect(server.calls).toHaveLength(1);
+  });
+});
+
+test("fails the task or warns depending on the error policy", async () => {
+  const error = new Error("GET /thing failed with 500");
+  await expect(
+    Promise.reject(error).catch(handleHttpError("fail", "Failed to get"))
+  ).rejects.toThrow("Failed to get: GET /thing failed with 500");
+  await expect(
+    Promise.reject(error).catch(handleHttpError("warn", "Failed to get"))
+  ).resolves.toBeUndefined();
+});
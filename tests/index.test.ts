@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import main from "../index";
+import { CHECKPOINT_FILE } from "../src/checkpoint";
+import {
+  createSpawner,
+  createStubServer,
+  expectCalls,
+  listFiles,
+  routes,
+  StubServer,
+  useSandbox,
+} from "./stubs";
+
+// A Curve25519 public key, which secrets are sealed with.
+const publicKey = Buffer.alloc(32, 1).toString("base64");
+
+const secretRoutes = (repo: string) => ({
+  [`GET /api/v3/repos/acme/${repo}/actions/secrets/public-key`]: {
+    body: { key: publicKey, key_id: "key-1" },
+  },
+  [`PUT /api/v3/repos/acme/${repo}/actions/secrets/NPM_TOKEN`]: {
+    status: 201,
+  },
+});
+
+const sandbox = useSandbox();
+let github: StubServer;
+let registry: StubServer;
+
+beforeEach(async () => {
+  fs.writeFileSync(
+    path.join(sandbox.home, ".vargasrc.json"),
+    JSON.stringify({
+      owner: "acme",
+      scope: "acme",
+      author: "Ada Lovelace",
+      email: "ada@acme.dev",
+    })
+  );
+  process.env.GITHUB_TOKEN = "github-token";
+  process.env.NPM_TOKEN = "npm-token";
+  github = await createStubServer(
+    routes({
+      "GET /api/v3/user": { body: { login: "acme" } },
+      "POST /api/v3/user/repos": { status: 201 },
+      ...secretRoutes("widget"),
+      ...secretRoutes("monorepo"),
+    })
+  );
+  registry = await createStubServer(routes({}));
+});
+
+afterEach(() => Promise.all([github.close(), registry.close()]));
+
+const run = (...args: string[]) => runWith(createSpawner(), ...args);
+
+const runWith = (
+  { spawner, commands }: ReturnType<typeof createSpawner>,
+  ...args: string[]
+) => {
+  return main({
+    argv: [
+      "node",
+      "index.js",
+      ...args,
+      "--host-url",
+      github.url,
+      "--registry-url",
+      registry.url,
+      "--package-manager",
+      "npm",
+    ],
+    spawner,
+  }).then(() => commands);
+};
+
+test("creates a package and its repo", async () => {
+  const commands = await run("widget", "--no-verify");
+  expect(process.exitCode).toBeUndefined();
+
+  const root = path.join(sandbox.cwd, "widget");
+  expect(listFiles(root)).toEqual([
+    ".create-vargas.json",
+    ".eslintrc.json",
+    ".github/workflows/ci.yaml",
+    ".github/workflows/main.yaml",
+    ".gitignore",
+    "LICENSE",
+    "jestconfig.json",
+    "package.json",
+    "src/index.ts",
+    "tests/index.test.ts",
+    "tsconfig.json",
+  ]);
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.join(root, "package.json")).toString()
+  );
+  expect(packageJson).toMatchObject({
+    name: "widget",
+    author: "Ada Lovelace <ada@acme.dev>",
+    repository: `git+${github.url}/acme/widget.git`,
+  });
+
+  expectCalls(github.calls, [
+    "GET /api/v3/repos/acme/widget",
+    "GET /api/v3/repos/acme/widget",
+    "GET /api/v3/user",
+    "POST /api/v3/user/repos",
+    "GET /api/v3/repos/acme/widget/actions/secrets/public-key",
+    "PUT /api/v3/repos/acme/widget/actions/secrets/NPM_TOKEN",
+  ]);
+  expect(registry.calls).toEqual(["GET /widget"]);
+  expect(commands).toEqual([
+    ["git", ["init"]],
+    [
+      "npm",
+      [
+        "install",
+        "--save-dev",
+        "@typescript-eslint/parser",
+        "@typescript-eslint/eslint-plugin",
+        "cross-env",
+        "eslint@8",
+        "prettier",
+        "tslint-config-prettier",
+        "typescript@6",
+        "@types/jest",
+        "jest",
+        "ts-jest",
+      ],
+    ],
+    ["git", ["add", "-A"]],
+    ["git", ["commit", "-m", "Initial commit from Create Vargas NPM"]],
+    ["git", ["remote", "add", "origin", `${github.url}/acme/widget.git`]],
+    ["npm", ["version", "patch"]],
+  ]);
+});
+
+test("leaves the host alone with --no-repo", async () => {
+  const commands = await run("widget", "--no-verify", "--no-repo");
+  expect(process.exitCode).toBeUndefined();
+  expect(github.calls).toEqual([]);
+  expect(registry.calls).toEqual(["GET /widget"]);
+  expect(commands).not.toContainEqual([
+    "git",
+    expect.arrayContaining(["remote"]),
+  ]);
+  expect(commands).not.toContainEqual(["npm", ["version", "patch"]]);
+});
+
+test("fails when the name is taken", async () => {
+  await registry.close();
+  registry = await createStubServer(() => ({
+    body: { name: "widget" },
+  }));
+  const commands = await run("widget", "--no-verify");
+  expect(process.exitCode).toBe(1);
+  expect(fs.existsSync(path.join(sandbox.cwd, "widget"))).toBe(false);
+  expect(github.calls).toEqual(["GET /api/v3/repos/acme/widget"]);
+  expect(commands).toEqual([]);
+});
+
+test("creates no repo when the install fails", async () => {
+  const commands = await runWith(
+    createSpawner((command, [subcommand]) => subcommand === "install"),
+    "widget",
+    "--no-verify"
+  );
+  expect(process.exitCode).toBe(1);
+  expect(github.calls).toEqual(["GET /api/v3/repos/acme/widget"]);
+  expect(commands).toEqual([
+    ["git", ["init"]],
+    ["npm", expect.arrayContaining(["install"])],
+  ]);
+});
+
+test("creates a workspace and a package in it", async () => {
+  const rootCommands = await run("monorepo", "--workspace", "--no-verify");
+  expect(process.exitCode).toBeUndefined();
+  const root = path.join(sandbox.cwd, "monorepo");
+  const readPackageJson = (dir: string) =>
+    JSON.parse(fs.readFileSync(path.join(dir, "package.json")).toString());
+  expect(readPackageJson(root)).toMatchObject({
+    name: "monorepo",
+    private: true,
+    repository: `git+${github.url}/acme/monorepo.git`,
+  });
+  expect(rootCommands).toContainEqual(["git", ["push", "origin", "HEAD:main"]]);
+  expect(github.calls).toContain("POST /api/v3/user/repos");
+
+  github.calls.length = 0;
+  process.chdir(root);
+  const packageCommands = await run(
+    "@acme/first",
+    "--workspace",
+    "--no-verify"
+  );
+  expect(process.exitCode).toBeUndefined();
+  const packageDir = path.join(root, "packages", "first");
+  expect(listFiles(packageDir)).toEqual([
+    "LICENSE",
+    "jest.config.js",
+    "package.json",
+    "src/index.ts",
+    "tests/index.test.ts",
+    "tsconfig.json",
+  ]);
+  expect(readPackageJson(packageDir)).toMatchObject({
+    name: "@acme/first",
+    repository: {
+      type: "git",
+      url: `git+${github.url}/acme/monorepo.git`,
+      directory: "packages/first",
+    },
+  });
+  // The package lives in the workspace's repo.
+  expect(github.calls).toEqual([]);
+  expect(registry.calls).toEqual(["GET /@acme%2ffirst"]);
+  expect(packageCommands).toEqual([
+    ["npm", ["install", "--workspace", "packages/first"]],
+  ]);
+});
+
+test("resumes a failed run where it stopped", async () => {
+  await runWith(
+    createSpawner((command, [subcommand]) => subcommand === "install"),
+    "widget",
+    "--no-verify"
+  );
+  expect(process.exitCode).toBe(1);
+  process.exitCode = undefined;
+
+  const commands = await run("widget", "--no-verify", "--resume");
+  expect(process.exitCode).toBeUndefined();
+  const root = path.join(sandbox.cwd, "widget");
+  expect(fs.existsSync(path.join(root, CHECKPOINT_FILE))).toBe(false);
+  expect(github.calls).toContain("POST /api/v3/user/repos");
+  // The repo was initialised by the failed run already.
+  expect(commands).not.toContainEqual(["git", ["init"]]);
+  expect(commands).toContainEqual(["npm", expect.arrayContaining(["install"])]);
+  expect(commands).toContainEqual(["npm", ["version", "patch"]]);
+});
+
+test("merges template changes into a package on upgrade", async () => {
+  await run("widget", "--no-verify");
+  const root = path.join(sandbox.cwd, "widget");
+  const readFile = (file: string) =>
+    fs.readFileSync(path.join(root, file)).toString();
+  const manifestFile = path.join(root, ".create-vargas.json");
+  const manifest = JSON.parse(fs.readFileSync(manifestFile).toString());
+  // As if the package was generated by a version with other templates, and
+  // then changed locally.
+  const tsconfig = readFile("tsconfig.json");
+  manifest.files["tsconfig.json"] = tsconfig.replace(
+    '"strict": true',
+    '"strict": false'
+  );
+  const localTsconfig = manifest.files["tsconfig.json"].replace(
+    '"allowJs": false',
+    '"allowJs": true'
+  );
+  fs.writeFileSync(path.join(root, "tsconfig.json"), localTsconfig);
+  const eslintrc = readFile(".eslintrc.json");
+  manifest.files[".eslintrc.json"] = eslintrc.replace('"root": true', "");
+  const localEslintrc = eslintrc.replace('"root": true', '"root": false');
+  fs.writeFileSync(path.join(root, ".eslintrc.json"), localEslintrc);
+  fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+  process.chdir(root);
+  const commands = await run("upgrade");
+  expect(process.exitCode).toBeUndefined();
+  expect(readFile("tsconfig.json")).toBe(
+    tsconfig.replace('"allowJs": false', '"allowJs": true')
+  );
+  // Conflicting files are left for the user to merge.
+  expect(readFile(".eslintrc.json")).toBe(localEslintrc);
+  const upgraded = JSON.parse(fs.readFileSync(manifestFile).toString());
+  expect(upgraded.files["tsconfig.json"]).toBe(tsconfig);
+  expect(upgraded.files[".eslintrc.json"]).toBe(
+    manifest.files[".eslintrc.json"]
+  );
+  expect(commands).toEqual([]);
+});
+
+test("syncs the secrets of a package to its repo", async () => {
+  await run("widget", "--no-verify");
+  const root = path.join(sandbox.cwd, "widget");
+  fs.writeFileSync(
+    path.join(root, ".env"),
+    "NPM_TOKEN=npm-token\nAPI_KEY=api-key\nUNSET=\n"
+  );
+  await github.close();
+  github = await createStubServer(
+    routes({
+      "GET /api/v3/repos/acme/widget/actions/secrets?per_page=100": {
+        body: { secrets: [{ name: "NPM_TOKEN" }, { name: "OLD_KEY" }] },
+      },
+      ...secretRoutes("widget"),
+      "PUT /api/v3/repos/acme/widget/actions/secrets/API_KEY": {
+        status: 201,
+      },
+    })
+  );
+
+  process.chdir(root);
+  const commands = await run("secrets", "sync");
+  expect(process.exitCode).toBeUndefined();
+  expectCalls(github.calls, [
+    [
+      "GET /api/v3/repos/acme/widget/actions/secrets?per_page=100",
+      "GET /api/v3/repos/acme/widget/actions/secrets/public-key",
+    ],
+    [
+      "PUT /api/v3/repos/acme/widget/actions/secrets/NPM_TOKEN",
+      "PUT /api/v3/repos/acme/widget/actions/secrets/API_KEY",
+    ],
+  ]);
+  expect(console.log).toHaveBeenCalledWith(
+    expect.stringContaining("Missing values for UNSET")
+  );
+  expect(console.log).toHaveBeenCalledWith(
+    expect.stringContaining("no longer declared: OLD_KEY")
+  );
+  expect(commands).toEqual([]);
+});
+
+describe("other hosts", () => {
+  // The host stub answers as the host under test instead of GitHub.
+  const useHost = async (table: Parameters<typeof routes>[0]) => {
+    await github.close();
+    github = await createStubServer(routes(table));
+  };
+
+  test("creates the repo on GitLab", async () => {
+    process.env.GITLAB_TOKEN = "gitlab-token";
+    const project = "/api/v4/projects/acme%2Fwidget";
+    await useHost({
+      "GET /api/v4/namespaces/acme": { body: { id: 7 } },
+      "POST /api/v4/projects": { status: 201 },
+      [`POST ${project}/variables`]: { status: 201 },
+    });
+    const commands = await run("widget", "--no-verify", "--host", "gitlab");
+    expect(process.exitCode).toBeUndefined();
+    const root = path.join(sandbox.cwd, "widget");
+    expect(listFiles(root)).toContain(".gitlab-ci.yml");
+    expect(listFiles(root)).not.toContain(".github/workflows/ci.yaml");
+    expectCalls(github.calls, [
+      `GET ${project}`,
+      `GET ${project}`,
+      "GET /api/v4/namespaces/acme",
+      "POST /api/v4/projects",
+      `PUT ${project}/variables/NPM_TOKEN`,
+      `POST ${project}/variables`,
+    ]);
+    expect(commands).toContainEqual([
+      "git",
+      ["remote", "add", "origin", `${github.url}/acme/widget.git`],
+    ]);
+  });
+
+  test("creates the repo on Gitea", async () => {
+    process.env.GITEA_TOKEN = "gitea-token";
+    await useHost({
+      "GET /api/v1/user": { body: { login: "acme" } },
+      "POST /api/v1/user/repos": { status: 201 },
+      "PUT /api/v1/repos/acme/widget/actions/secrets/NPM_TOKEN": {
+        status: 201,
+      },
+    });
+    const commands = await run("widget", "--no-verify", "--host", "gitea");
+    expect(process.exitCode).toBeUndefined();
+    const root = path.join(sandbox.cwd, "widget");
+    expect(listFiles(root)).toContain(".github/workflows/ci.yaml");
+    expectCalls(github.calls, [
+      "GET /api/v1/repos/acme/widget",
+      "GET /api/v1/repos/acme/widget",
+      "GET /api/v1/user",
+      "POST /api/v1/user/repos",
+      "PUT /api/v1/repos/acme/widget/actions/secrets/NPM_TOKEN",
+    ]);
+    expect(commands).toContainEqual([
+      "git",
+      ["remote", "add", "origin", `${github.url}/acme/widget.git`],
+    ]);
+  });
+});
+
+test("reports progress as JSON lines on stdout", async () => {
+  const { log } = console;
+  const write = jest
+    .spyOn(process.stdout, "write")
+    .mockImplementation(() => true);
+  await run("widget", "--no-verify", "--reporter", "json");
+  // The reporter sends everything else to stderr, for the rest of the process.
+  console.log = log;
+  expect(process.exitCode).toBeUndefined();
+  const events = write.mock.calls.map(([line]) => JSON.parse(`${line}`));
+  expect(events).toContainEqual(
+    expect.objectContaining({ event: "start", task: "Install Dev Packages" })
+  );
+  expect(events).toContainEqual(
+    expect.objectContaining({ event: "success", task: "Install Dev Packages" })
+  );
+  expect(events).toContainEqual(
+    expect.objectContaining({
+      event: "skip",
+      task: "Lint project",
+      reason: "skipped",
+    })
+  );
+  expect(events).toContainEqual(
+    expect.objectContaining({
+      event: "artifact",
+      name: "repository",
+      value: `${github.url}/acme/widget.git`,
+    })
+  );
+  expect(events[events.length - 1]).toMatchObject({
+    event: "end",
+    success: true,
+    failures: [],
+  });
+});
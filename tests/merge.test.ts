@@ -0,0 +1,39 @@
+import mergeFile from "../src/merge";
+
+const base = ["one", "two", "three", "four", "five", ""].join("\n");
+
+test("keeps local changes along with the template's", () => {
+  expect(
+    mergeFile({
+      base,
+      ours: base.replace("one", "uno"),
+      theirs: base.replace("five", "cinco"),
+    })
+  ).toEqual({
+    contents: ["uno", "two", "three", "four", "cinco", ""].join("\n"),
+    conflicts: 0,
+  });
+});
+
+test("marks where local and template changes conflict", () => {
+  const { contents, conflicts } = mergeFile({
+    base,
+    ours: base.replace("three", "tres"),
+    theirs: base.replace("three", "drei"),
+  });
+  expect(conflicts).toBe(1);
+  expect(contents).toBe(
+    [
+      "one",
+      "two",
+      "<<<<<<< local",
+      "tres",
+      "=======",
+      "drei",
+      ">>>>>>> template",
+      "four",
+      "five",
+      "",
+    ].join("\n")
+  );
+});
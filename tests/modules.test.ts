@@ -0,0 +1,27 @@
+import getModuleView, { getBuildOutputs } from "../src/modules";
+
+const getExports = (format: string) =>
+  JSON.parse(getModuleView(format).exportsMap)["."];
+
+test("single format packages load either way", () => {
+  expect(getExports("cjs")).toEqual({
+    types: "./dist/index.d.ts",
+    require: "./dist/index.js",
+    default: "./dist/index.js",
+  });
+  expect(getExports("esm")).toEqual({
+    types: "./dist/index.d.ts",
+    import: "./dist/index.js",
+    default: "./dist/index.js",
+  });
+});
+
+test("lists each build output once", () => {
+  expect(getBuildOutputs("cjs")).toEqual(["dist/index.d.ts", "dist/index.js"]);
+  expect(getBuildOutputs("dual")).toEqual([
+    "dist/esm/index.d.ts",
+    "dist/esm/index.js",
+    "dist/cjs/index.d.ts",
+    "dist/cjs/index.js",
+  ]);
+});
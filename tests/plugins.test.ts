@@ -0,0 +1,105 @@
+import { applyPlugins, PluginContext, PluginTask } from "../src/plugins";
+import { Task } from "../src/tasks";
+
+const context = {
+  projectName: "widget",
+  root: "/tmp/widget",
+  isReact: false,
+  isCli: false,
+  config: {},
+  getSecret: () => undefined,
+} as unknown as PluginContext;
+
+const noop = () => undefined;
+
+const tasks: Task[] = [
+  { title: "Install", task: noop },
+  { title: "Build", task: noop, dependsOn: ["Install"] },
+  { title: "Test", task: noop, dependsOn: ["Install"] },
+  { title: "Publish", task: noop, dependsOn: ["Build", "Test"] },
+];
+
+const plugin = (task: Omit<PluginTask, "task">) => ({
+  task: noop,
+  ...task,
+  plugin: "vargas-plugin",
+});
+
+const graph = (all: Task[]) =>
+  all.map(({ title, dependsOn = [] }) => `${title} <- ${dependsOn.join(", ")}`);
+
+test("runs a task before its anchor, after the anchor's dependencies", () => {
+  expect(
+    graph(
+      applyPlugins(tasks, [plugin({ title: "Lint", before: "Build" })], context)
+    )
+  ).toEqual([
+    "Install <- ",
+    "Lint <- Install",
+    "Build <- Install, Lint",
+    "Test <- Install",
+    "Publish <- Build, Test",
+  ]);
+});
+
+test("runs a task after its anchor, before what waited for the anchor", () => {
+  expect(
+    graph(
+      applyPlugins(
+        tasks,
+        [plugin({ title: "Audit", after: "Install" })],
+        context
+      )
+    )
+  ).toEqual([
+    "Install <- ",
+    "Audit <- Install",
+    "Build <- Install, Audit",
+    "Test <- Install, Audit",
+    "Publish <- Build, Test",
+  ]);
+});
+
+test("anchors tasks to the ones inserted before them", () => {
+  expect(
+    graph(
+      applyPlugins(
+        tasks,
+        [
+          plugin({ title: "Lint", before: "Publish" }),
+          plugin({ title: "Report", after: "Lint" }),
+        ],
+        context
+      )
+    )
+  ).toEqual([
+    "Install <- ",
+    "Build <- Install",
+    "Test <- Install",
+    "Lint <- Build, Test",
+    "Report <- Lint",
+    "Publish <- Build, Test, Lint, Report",
+  ]);
+});
+
+test("hands plugin tasks the context", async () => {
+  const task = jest.fn();
+  const [, inserted] = applyPlugins(
+    tasks,
+    [{ ...plugin({ title: "Lint", after: "Install" }), task }],
+    context
+  );
+  await inserted.task();
+  expect(task).toHaveBeenCalledWith(context);
+});
+
+test("rejects tasks anchored to unknown or taken titles", () => {
+  expect(() =>
+    applyPlugins(tasks, [plugin({ title: "Lint", before: "Deploy" })], context)
+  ).toThrow(
+    "Plugin task Lint from vargas-plugin is anchored to unknown task Deploy"
+  );
+  expect(() =>
+    applyPlugins(tasks, [plugin({ title: "Test", after: "Build" })], context)
+  ).toThrow("Plugin task Test from vargas-plugin is already a task");
+});
@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import loadSecrets, { parseEnvFile } from "../src/secrets";
+import { useSandbox } from "./stubs";
+
+const sandbox = useSandbox();
+
+test("parses the KEY=value lines of env files", () => {
+  expect(
+    parseEnvFile(
+      [
+        "# Tokens",
+        "",
+        "NPM_TOKEN=npm-token",
+        "export API_KEY = key # for the API",
+        'QUOTED="two\\nlines with \\"quotes\\" # kept"',
+        "SINGLE='as # is\\n'",
+        "EMPTY=",
+        "not a variable",
+      ].join("\r\n")
+    )
+  ).toEqual({
+    NPM_TOKEN: "npm-token",
+    API_KEY: "key",
+    QUOTED: 'two\nlines with "quotes" # kept',
+    SINGLE: "as # is\\n",
+    EMPTY: "",
+  });
+});
+
+describe("loadSecrets", () => {
+  const write = (file: string, contents: string) =>
+    fs.writeFileSync(path.join(sandbox.cwd, file), contents);
+
+  beforeEach(() => write("package.json", JSON.stringify({ name: "widget" })));
+
+  test("syncs the secrets of the env file, preferring the environment", () => {
+    write(".env", "NPM_TOKEN=from-file\nAPI_KEY=key\n");
+    process.env.NPM_TOKEN = "from-env";
+    const secrets = loadSecrets();
+    expect(secrets.names).toEqual(["NPM_TOKEN", "API_KEY"]);
+    expect(secrets.getValue("NPM_TOKEN")).toBe("from-env");
+    expect(secrets.getValue("API_KEY")).toBe("key");
+    expect(secrets.getValue("OTHER")).toBe("");
+  });
+
+  test("syncs the secrets the package.json declares", () => {
+    write(
+      "package.json",
+      JSON.stringify({ "create-vargas": { secrets: ["API_KEY"] } })
+    );
+    write("ci.env", "NPM_TOKEN=token\nAPI_KEY=key\n");
+    const secrets = loadSecrets({ envFile: "ci.env" });
+    expect(secrets.names).toEqual(["API_KEY"]);
+    expect(secrets.envFile).toBe(path.join(sandbox.cwd, "ci.env"));
+  });
+
+  test("syncs NPM_TOKEN without an env file", () => {
+    expect(loadSecrets().names).toEqual(["NPM_TOKEN"]);
+  });
+
+  test("fails on a missing env file or a malformed declaration", () => {
+    expect(() => loadSecrets({ envFile: "ci.env" })).toThrow(
+      `Could not find env file ${path.join(sandbox.cwd, "ci.env")}`
+    );
+    write(
+      "package.json",
+      JSON.stringify({ "create-vargas": { secrets: "API_KEY" } })
+    );
+    expect(() => loadSecrets()).toThrow(
+      '"create-vargas".secrets in package.json must be a list of secret names'
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { ChildProcess } from "child_process";
+import crossSpawn from "cross-spawn";
+import { EventEmitter } from "events";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+export type StubRequest = {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+export type StubResponse = {
+  status?: number;
+  body?: unknown;
+  contentType?: string;
+  headers?: Record<string, string>;
+};
+
+export type StubServer = {
+  url: string;
+  // `METHOD path` of every request, in the order they arrived.
+  calls: string[];
+  requests: StubRequest[];
+  close: () => Promise<void>;
+};
+
+// A local server standing in for an API. Objects are sent as JSON and
+// strings as they are, like the XML of AWS.
+export const createStubServer = (
+  handler: (request: StubRequest) => StubResponse,
+  // What a request is recorded as, `METHOD path` by default.
+  record = (request: StubRequest) => `${request.method} ${request.url}`
+): Promise<StubServer> => {
+  const calls: string[] = [];
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = {
+        method: req.method || "",
+        url: req.url || "",
+        headers: req.headers,
+        body,
+      };
+      calls.push(record(request));
+      requests.push(request);
+      const {
+        status = 200,
+        body: data = {},
+        contentType,
+        headers,
+      } = handler(request);
+      res.writeHead(status, {
+        "Content-Type":
+          contentType ||
+          (typeof data === "string" ? "text/xml" : "application/json"),
+        ...headers,
+      });
+      res.end(typeof data === "string" ? data : JSON.stringify(data));
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        calls,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    )
+  );
+};
+
+// Answers `METHOD path` keys from a table, and everything else with a 404.
+export const routes =
+  (table: Record<string, StubResponse>) =>
+  ({ method, url }: StubRequest): StubResponse =>
+    table[`${method} ${url}`] || {
+      status: 404,
+      body: { message: "Not Found" },
+    };
+
+// Checks calls against the expected ones in order. A nested array stands for
+// requests sent together, which may arrive in any order.
+export const expectCalls = (
+  calls: string[],
+  expected: (string | string[])[]
+) => {
+  const normalize = (list: string[]) =>
+    expected.reduce<{ at: number; items: string[] }>(
+      ({ at, items }, e) =>
+        Array.isArray(e)
+          ? {
+              at: at + e.length,
+              items: [...items, ...list.slice(at, at + e.length).sort()],
+            }
+          : { at: at + 1, items: [...items, list[at]] },
+      { at: 0, items: [] }
+    ).items;
+  expect(calls).toHaveLength(expected.flat().length);
+  expect(normalize(calls)).toEqual(normalize(expected.flat()));
+};
+
+// A spawned command and its arguments, which are missing when the whole
+// command line was passed as the command.
+export type Command = [string, string[]?];
+
+// Stands in for cross-spawn, recording each command and succeeding unless
+// `fails` says otherwise.
+export const createSpawner = (
+  fails: (command: string, args: string[]) => boolean = () => false
+) => {
+  const commands: Command[] = [];
+  // Like cross-spawn, takes the options in place of the arguments too.
+  const run = (command: string, args: unknown) => {
+    commands.push(Array.isArray(args) ? [command, args] : [command]);
+    return fails(command, Array.isArray(args) ? args : []) ? 1 : 0;
+  };
+  const spawner = {
+    spawn: (command: string, args?: unknown) => {
+      const child = new EventEmitter();
+      const code = run(command, args);
+      setImmediate(() => child.emit("close", code));
+      return child as unknown as ChildProcess;
+    },
+    sync: (command: string, args?: unknown) => ({
+      status: run(command, args),
+    }),
+  };
+  return {
+    commands,
+    spawner: spawner as unknown as Pick<typeof crossSpawn, "spawn" | "sync">,
+  };
+};
+
+export const makeTempDir = () =>
+  fs.mkdtempSync(path.join(os.tmpdir(), "create-vargas-"));
+
+// Paths of all files under dir, relative to it and sorted.
+export const listFiles = (dir: string, skip: string[] = []): string[] =>
+  fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((f) => !skip.includes(f.name))
+    .flatMap((f) =>
+      f.isDirectory()
+        ? listFiles(path.join(dir, f.name), skip).map((c) => `${f.name}/${c}`)
+        : [f.name]
+    )
+    .sort();
+
+export const copyDir = (src: string, dest: string, skip: string[] = []) =>
+  listFiles(src, skip).forEach((f) => {
+    fs.mkdirSync(path.dirname(path.join(dest, f)), { recursive: true });
+    fs.copyFileSync(path.join(src, f), path.join(dest, f));
+  });
+
+// Runs each test in a temp dir with its own home and environment, and quiet.
+export const useSandbox = () => {
+  const sandbox = { home: "", cwd: "" };
+  const env = { ...process.env };
+  const cwd = process.cwd();
+  beforeEach(() => {
+    const dir = makeTempDir();
+    sandbox.home = path.join(dir, "home");
+    sandbox.cwd = path.join(dir, "work");
+    fs.mkdirSync(sandbox.home);
+    fs.mkdirSync(sandbox.cwd);
+    process.env.HOME = sandbox.home;
+    // Jest hands tests a copy of the environment, which os.homedir() does not
+    // read.
+    jest.spyOn(os, "homedir").mockReturnValue(sandbox.home);
+    process.chdir(sandbox.cwd);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.chdir(cwd);
+    Object.keys(process.env)
+      .filter((key) => !(key in env))
+      .forEach((key) => delete process.env[key]);
+    Object.assign(process.env, env);
+    process.exitCode = undefined;
+    fs.rmSync(path.dirname(sandbox.home), { recursive: true, force: true });
+  });
+  return sandbox;
+};
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { CHECKPOINT_FILE, readCheckpoint } from "../src/checkpoint";
+import { Reporter } from "../src/reporters";
+import runTasks, { Task } from "../src/tasks";
+import { useSandbox } from "./stubs";
+
+const sandbox = useSandbox();
+let events: string[];
+
+// Records what the run reports, one `event task` line each.
+const reporter: Reporter = {
+  start: (task) => events.push(`start ${task}`),
+  skip: (task, reason) => events.push(`skip ${task} (${reason})`),
+  success: (task) => events.push(`success ${task}`),
+  failure: (task) => events.push(`failure ${task}`),
+  artifact: () => undefined,
+  undo: (task, error) =>
+    events.push(error ? `undo ${task} failed` : `undo ${task}`),
+  end: () => undefined,
+};
+
+beforeEach(() => {
+  events = [];
+});
+
+const run = (tasks: Task[], options: { resume?: boolean } = {}) =>
+  runTasks(tasks, { root: sandbox.cwd, reporter, ...options });
+
+const noop = () => undefined;
+
+describe("the task graph", () => {
+  test("may not depend on unknown tasks", async () => {
+    await expect(
+      run([{ title: "a", task: noop, dependsOn: ["b"] }])
+    ).rejects.toThrow("Task a depends on unknown task b");
+    expect(events).toEqual([]);
+  });
+
+  test("may not be circular", async () => {
+    await expect(
+      run([
+        { title: "a", task: noop, dependsOn: ["c"] },
+        { title: "b", task: noop, dependsOn: ["a"] },
+        { title: "c", task: noop, dependsOn: ["b"] },
+      ])
+    ).rejects.toThrow("Tasks have a circular dependency: a -> c -> b -> a");
+    expect(events).toEqual([]);
+  });
+});
+
+test("runs a task once all of its dependencies succeeded", async () => {
+  const ran: string[] = [];
+  const task = (title: string) => () => {
+    ran.push(title);
+  };
+  await run([
+    { title: "c", task: task("c"), dependsOn: ["a", "b"] },
+    { title: "a", task: task("a") },
+    { title: "b", task: task("b"), dependsOn: ["a"] },
+  ]);
+  expect(ran).toEqual(["a", "b", "c"]);
+});
+
+test("skips the tasks blocked by a failure and runs the others", async () => {
+  const ran: string[] = [];
+  const task = (title: string) => () => {
+    ran.push(title);
+  };
+  await expect(
+    run([
+      {
+        title: "a",
+        task: () => Promise.reject(new Error("a broke")),
+      },
+      { title: "b", task: task("b"), dependsOn: ["a"] },
+      { title: "c", task: task("c"), dependsOn: ["b"] },
+      { title: "d", task: task("d") },
+      { title: "e", task: task("e"), skip: () => true },
+      { title: "f", task: task("f"), dependsOn: ["e"] },
+    ])
+  ).rejects.toBe("a broke");
+  expect(ran.sort()).toEqual(["d", "f"]);
+  expect(events).toContain("skip b (blocked)");
+  expect(events).toContain("skip c (blocked)");
+  expect(events).toContain("skip e (skipped)");
+});
+
+test("resumes a failed run after the tasks that completed", async () => {
+  const ran: string[] = [];
+  const tasks = (failing: boolean): Task[] => [
+    {
+      title: "a",
+      task: () => {
+        ran.push("a");
+        process.env.CREATED_ID = "42";
+      },
+      outputs: ["CREATED_ID"],
+    },
+    {
+      title: "b",
+      dependsOn: ["a"],
+      task: () => {
+        ran.push(`b with ${process.env.CREATED_ID}`);
+        if (failing) throw new Error("b broke");
+      },
+    },
+  ];
+  await expect(run(tasks(true))).rejects.toBe("b broke");
+  expect(fs.existsSync(path.join(sandbox.cwd, CHECKPOINT_FILE))).toBe(true);
+
+  delete process.env.CREATED_ID;
+  ran.length = 0;
+  events = [];
+  await run(tasks(false), { resume: true });
+  expect(ran).toEqual(["b with 42"]);
+  expect(events).toContain("skip a (completed previously)");
+  expect(fs.existsSync(path.join(sandbox.cwd, CHECKPOINT_FILE))).toBe(false);
+});
+
+test("rolls back the tasks that ran, the last to finish first", async () => {
+  const undone: string[] = [];
+  const task = (
+    title: string,
+    undo: Task["undo"] = () => {
+      undone.push(title);
+    }
+  ): Task => ({ title, task: noop, undo });
+  await expect(
+    runTasks(
+      [
+        task("a"),
+        {
+          ...task("b", () => Promise.reject(new Error("b is stuck"))),
+          dependsOn: ["a"],
+        },
+        { ...task("c"), dependsOn: ["b"] },
+        { ...task("d"), skip: () => true },
+        {
+          title: "e",
+          dependsOn: ["c"],
+          task: () => Promise.reject(new Error("e broke")),
+        },
+      ],
+      { root: sandbox.cwd, reporter, rollback: true }
+    )
+  ).rejects.toBe(["e broke", "Could not undo:", "- b: b is stuck"].join("\n"));
+  // Skipped tasks did nothing to undo.
+  expect(undone).toEqual(["c", "a"]);
+  expect(events.filter((e) => e.startsWith("undo"))).toEqual([
+    "undo c",
+    "undo b failed",
+    "undo a",
+  ]);
+  // What could not be undone is kept, for a resumed run to skip.
+  const { completed, undoable } = readCheckpoint(sandbox.cwd);
+  expect(completed.sort()).toEqual(["b", "d"]);
+  expect(undoable).toEqual(["b"]);
+});